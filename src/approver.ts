@@ -10,6 +10,12 @@ export interface WebSocketMessage {
   [key: string]: any;
 }
 
+interface PendingResponse {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
 export interface WebSocketManagerOptions {
   url: string;
   reconnectInterval?: number;
@@ -22,11 +28,9 @@ export class WebSocketManager {
   private messageQueue: string[] = [];
   private reconnectAttempts = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
-  private pendingResponse: {
-    resolve: (value: any) => void;
-    reject: (error: Error) => void;
-    timeout: NodeJS.Timeout;
-  } | null = null;
+  // In-flight requests keyed by the outgoing message id, so several approvals
+  // and token requests can be outstanding at once without cross-talk
+  private pendingResponses: Map<string, PendingResponse> = new Map();
   
   constructor(private options: WebSocketManagerOptions) {
     this.options = {
@@ -55,11 +59,8 @@ export class WebSocketManager {
       this.ws.on('close', (code: number, reason: Buffer) => {
         this.ws = null;
         
-        // Reject any pending response
-        if (this.pendingResponse) {
-          this.pendingResponse.reject(new Error('WebSocket disconnected'));
-          this.clearPendingResponse();
-        }
+        // Reject any pending responses
+        this.rejectAllPending(new Error('WebSocket disconnected'));
         
         if (this.options.autoReconnect) {
           this.scheduleReconnect();
@@ -70,11 +71,8 @@ export class WebSocketManager {
         console.error('WebSocket error:', error);
         this.ws = null;
         
-        // Reject any pending response
-        if (this.pendingResponse) {
-          this.pendingResponse.reject(error);
-          this.clearPendingResponse();
-        }
+        // Reject any pending responses
+        this.rejectAllPending(error);
       });
 
     } catch (error) {
@@ -107,51 +105,101 @@ export class WebSocketManager {
   }
 
   private handleMessage(message: string): void {
-    // If we're waiting for a response, resolve it with this message
-    if (this.pendingResponse) {
-      try {
-        let parsedMessage = JSON.parse(message);
+    let parsedMessage: any;
+    try {
+      parsedMessage = JSON.parse(message);
+    } catch (error) {
+      this.onTextMessage(message);
+      return;
+    }
 
-        // Handle token response
-        if (parsedMessage?.type === 'auth-token') {
-          this.pendingResponse.resolve(parsedMessage);
-          this.clearPendingResponse();
-          return;
-        }
+    // Route replies to the request they answer, never to whatever happens to be pending
+    const correlationId = this.getCorrelationId(parsedMessage);
+    const pending = correlationId ? this.pendingResponses.get(correlationId) : undefined;
+    if (!correlationId || !pending) {
+      this.onJsonMessage(parsedMessage);
+      return;
+    }
 
-        // Handle approval responses
-        if(parsedMessage?.status === 'approved') {
-          this.pendingResponse.resolve(parsedMessage);
-        } else if(parsedMessage?.status === 'rejected') {
-          let feedback = parsedMessage?.feedback || 'yo you rejected the message'
-          this.pendingResponse.resolve(JSON.stringify({error: 'code execution rejected', feedback: feedback}));
-        } else {
-          this.pendingResponse.resolve(JSON.stringify({error: 'Invalid response'}));
-        }
-      } catch (error) {
-        // If JSON parsing fails, return the raw message
-        this.pendingResponse.resolve(JSON.stringify({error: 'Failed to parse JSON response'}));
-      }
-      this.clearPendingResponse();
+    this.clearPendingResponse(correlationId);
+
+    // Handle token response
+    if (parsedMessage?.type === 'auth-token') {
+      pending.resolve(parsedMessage);
       return;
     }
-    
-    // Handle regular messages when not waiting for a response
-    try {
-      const parsed = JSON.parse(message);
-      this.onJsonMessage(parsed);
-    } catch (error) {
-      this.onTextMessage(message);
+
+    // Handle approval responses
+    if(parsedMessage?.status === 'approved') {
+      pending.resolve(parsedMessage);
+    } else if(parsedMessage?.status === 'rejected') {
+      let feedback = parsedMessage?.feedback || 'yo you rejected the message'
+      pending.resolve(JSON.stringify({error: 'code execution rejected', feedback: feedback}));
+    } else {
+      pending.resolve(JSON.stringify({error: 'Invalid response'}));
+    }
+  }
+
+  private getCorrelationId(message: any): string | null {
+    if (!message || typeof message !== 'object') return null;
+    // inReplyTo names the request being answered; a reply may carry a requestId of its own
+    const id = message.inReplyTo ?? message.requestId ?? message.id;
+    return id !== undefined && id !== null ? String(id) : null;
+  }
+
+  private generateRequestId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private clearPendingResponse(id: string): void {
+    const pending = this.pendingResponses.get(id);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingResponses.delete(id);
     }
   }
 
-  private clearPendingResponse(): void {
-    if (this.pendingResponse) {
-      clearTimeout(this.pendingResponse.timeout);
-      this.pendingResponse = null;
+  private rejectAllPending(error: Error): void {
+    for (const [id, pending] of this.pendingResponses) {
+      clearTimeout(pending.timeout);
+      this.pendingResponses.delete(id);
+      pending.reject(error);
     }
   }
 
+  private sendAndWait(id: string, payload: any, timeout: number, timeoutMessage: string): Promise<any> {
+    if (this.pendingResponses.has(id)) {
+      return Promise.reject(new Error(`Already waiting for a response to request ${id}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      // Set up timeout
+      const timeoutId = setTimeout(() => {
+        this.clearPendingResponse(id);
+        reject(new Error(timeoutMessage));
+      }, timeout);
+
+      // Store the pending response
+      this.pendingResponses.set(id, {
+        resolve,
+        reject,
+        timeout: timeoutId
+      });
+
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        try {
+          this.ws.send(JSON.stringify(payload));
+        } catch (error) {
+          this.clearPendingResponse(id);
+          reject(error);
+        }
+      } else {
+        this.clearPendingResponse(id);
+        reject(new Error('WebSocket not connected'));
+      }
+    });
+  }
+
   private onJsonMessage(message: any): void {
     // Handle structured JSON messages when not waiting for a response
     if (message.type) {
@@ -191,73 +239,22 @@ export class WebSocketManager {
   }
 
   public async sendAndWaitForApproval(messageObject: any, timeout: number = 30000): Promise<any> {
-    // Check if we're already waiting for a response
-    if (this.pendingResponse) {
-      throw new Error('Already waiting for a response');
-    }
-
-    return new Promise((resolve, reject) => {
-      // Set up timeout
-      const timeoutId = setTimeout(() => {
-        this.clearPendingResponse();
-        reject(new Error('Response timeout'));
-      }, timeout);
+    // The approver echoes the message id back (or sets requestId/inReplyTo to it)
+    const id = messageObject?.id !== undefined ? String(messageObject.id) : this.generateRequestId('approval');
+    const payload = { ...messageObject, id, requestId: id };
 
-      // Store the pending response
-      this.pendingResponse = {
-        resolve,
-        reject,
-        timeout: timeoutId
-      };
-
-      // Send the message object directly
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        try {
-          this.ws.send(JSON.stringify(messageObject));
-        } catch (error) {
-          this.clearPendingResponse();
-          reject(error);
-        }
-      } else {
-        this.clearPendingResponse();
-        reject(new Error('WebSocket not connected'));
-      }
-    });
+    return this.sendAndWait(id, payload, timeout, 'Response timeout');
   }
 
   public async sendAndWaitForTokenResponse(tokenRequest: any, timeout: number = 10000): Promise<any> {
-    // Check if we're already waiting for a response
-    if (this.pendingResponse) {
-      throw new Error('Already waiting for a response');
-    }
-
-    return new Promise((resolve, reject) => {
-      // Set up timeout
-      const timeoutId = setTimeout(() => {
-        this.clearPendingResponse();
-        reject(new Error('Token request timeout'));
-      }, timeout);
+    const requestId = tokenRequest?.requestId !== undefined ? String(tokenRequest.requestId) : this.generateRequestId('token');
+    const payload = { ...tokenRequest, requestId };
 
-      // Store the pending response
-      this.pendingResponse = {
-        resolve,
-        reject,
-        timeout: timeoutId
-      };
+    return this.sendAndWait(requestId, payload, timeout, 'Token request timeout');
+  }
 
-      // Send the token request
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        try {
-          this.ws.send(JSON.stringify(tokenRequest));
-        } catch (error) {
-          this.clearPendingResponse();
-          reject(error);
-        }
-      } else {
-        this.clearPendingResponse();
-        reject(new Error('WebSocket not connected'));
-      }
-    });
+  public getPendingRequestCount(): number {
+    return this.pendingResponses.size;
   }
 
   public isConnected(): boolean {
@@ -284,11 +281,8 @@ export class WebSocketManager {
       this.reconnectTimer = null;
     }
     
-    // Clean up any pending response
-    if (this.pendingResponse) {
-      this.pendingResponse.reject(new Error('WebSocket disconnected'));
-      this.clearPendingResponse();
-    }
+    // Clean up any pending responses
+    this.rejectAllPending(new Error('WebSocket disconnected'));
     
     if (this.ws) {
       this.ws.close();
@@ -0,0 +1,230 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import 'dotenv/config'
+
+/**
+ * Append-only audit journal for the plan -> evaluate -> execute workflow
+ *
+ * Every entry is one JSON line carrying the hash of the previous entry, so any
+ * edit, deletion or reordering of past entries breaks the chain on verification.
+ */
+
+export type AuditEventType =
+  | 'plan_created'
+  | 'evaluate_submitted'
+  | 'evaluate_decision'
+  | 'execute_started'
+  | 'execute_result'
+  | 'execute_refused'
+  | 'codespace_stopped'
+  | 'codespace_deleted';
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  event: AuditEventType;
+  data: Record<string, any>;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  event?: AuditEventType;
+  token?: string;
+  since?: string;
+  limit?: number;
+}
+
+export type AuditQueryResult =
+  | { success: true; path: string; totalMatches: number; unreadableLines: number; entries: AuditEntry[] }
+  | { success: false; error: { message: string } };
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  entriesChecked: number;
+  brokenAt?: number;
+  reason?: string;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+const auditLogPath = process.env.AUDIT_LOG_PATH || path.join(os.homedir(), '.keyboard-mcp', 'audit-log.jsonl');
+
+// Appends are serialized through this chain so concurrent tool calls cannot interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+let lastEntry: { seq: number; hash: string } | null = null;
+let needsLineBreak = false; // The file ends in a line cut short by a crash
+// Latest `execute_started` per codespace: read from the journal once, then kept current by every append
+let lastExecutions: Map<string, number> | null = null;
+
+const computeEntryHash = (entry: Omit<AuditEntry, 'hash'>): string => {
+  const payload = JSON.stringify({
+    seq: entry.seq,
+    timestamp: entry.timestamp,
+    event: entry.event,
+    data: entry.data,
+    prevHash: entry.prevHash
+  });
+  return createHash('sha256').update(payload).digest('hex');
+};
+
+// Lines that do not parse (e.g. an append cut short by a crash) come back as null
+const readLines = async (): Promise<{ lines: (AuditEntry | null)[]; endsWithLineBreak: boolean }> => {
+  let contents: string;
+  try {
+    contents = await fs.readFile(auditLogPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { lines: [], endsWithLineBreak: true };
+    throw error;
+  }
+
+  const lines = contents
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map(line => {
+      try {
+        return JSON.parse(line) as AuditEntry;
+      } catch (error) {
+        return null;
+      }
+    });
+  return { lines, endsWithLineBreak: contents.length === 0 || contents.endsWith('\n') };
+};
+
+const loadLastEntry = async (): Promise<{ seq: number; hash: string }> => {
+  if (lastEntry) return lastEntry;
+
+  const { lines, endsWithLineBreak } = await readLines();
+  const entries = lines.filter((entry): entry is AuditEntry => entry !== null);
+  const tail = entries[entries.length - 1];
+  lastEntry = tail ? { seq: tail.seq, hash: tail.hash } : { seq: 0, hash: GENESIS_HASH };
+  needsLineBreak = !endsWithLineBreak;
+  return lastEntry;
+};
+
+export const getAuditLogPath = (): string => auditLogPath;
+
+const noteExecution = (latest: Map<string, number>, entry: AuditEntry): void => {
+  const name = entry.data?.codespace;
+  const at = Date.parse(entry.timestamp);
+  if (entry.event === 'execute_started' && name && at > (latest.get(name) || 0)) latest.set(name, at);
+};
+
+/**
+ * Appends an event to the journal. Audit failures are logged but never thrown,
+ * so a full disk cannot take down an in-progress approval.
+ */
+export const recordAuditEvent = async (event: AuditEventType, data: Record<string, any>): Promise<AuditEntry | null> => {
+  const append = async (): Promise<AuditEntry> => {
+    const previous = await loadLastEntry();
+    const unsigned = {
+      seq: previous.seq + 1,
+      timestamp: new Date().toISOString(),
+      event,
+      data,
+      prevHash: previous.hash
+    };
+    const entry: AuditEntry = { ...unsigned, hash: computeEntryHash(unsigned) };
+
+    await fs.mkdir(path.dirname(auditLogPath), { recursive: true });
+    // Start on a fresh line so a truncated one does not swallow this entry too
+    await fs.appendFile(auditLogPath, (needsLineBreak ? '\n' : '') + JSON.stringify(entry) + '\n', { encoding: 'utf8', mode: 0o600 });
+    lastEntry = { seq: entry.seq, hash: entry.hash };
+    needsLineBreak = false;
+    if (lastExecutions) noteExecution(lastExecutions, entry);
+    return entry;
+  };
+
+  const result = writeQueue.then(append, append);
+  writeQueue = result.catch(() => undefined);
+
+  try {
+    return await result;
+  } catch (error) {
+    console.error('Failed to write audit log entry:', error);
+    return null;
+  }
+};
+
+/**
+ * When code last started on each codespace. Only the first call reads the journal;
+ * it runs in the append queue, so no entry is missed or counted twice.
+ */
+export const getLastExecutionTimes = async (): Promise<Map<string, number>> => {
+  const load = async (): Promise<Map<string, number>> => {
+    if (!lastExecutions) {
+      const latest = new Map<string, number>();
+      const { lines } = await readLines();
+      for (const entry of lines) {
+        if (entry) noteExecution(latest, entry);
+      }
+      lastExecutions = latest;
+    }
+    return new Map(lastExecutions);
+  };
+
+  const result = writeQueue.then(load, load);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+export const queryAuditLog = async ({ event, token, since, limit = 50 }: AuditQuery): Promise<AuditQueryResult> => {
+  try {
+    const sinceTime = since ? new Date(since).getTime() : null;
+    if (sinceTime !== null && isNaN(sinceTime)) {
+      throw new Error(`Invalid 'since' timestamp: ${since}`);
+    }
+
+    const { lines } = await readLines();
+    const matches = lines.filter((entry): entry is AuditEntry => {
+      if (!entry) return false;
+      if (event && entry.event !== event) return false;
+      if (sinceTime !== null && new Date(entry.timestamp).getTime() < sinceTime) return false;
+      if (token && !Object.values(entry.data).includes(token)) return false;
+      return true;
+    });
+
+    return {
+      success: true,
+      path: auditLogPath,
+      totalMatches: matches.length,
+      unreadableLines: lines.filter(entry => entry === null).length,
+      entries: limit > 0 ? matches.slice(-limit) : []
+    };
+  } catch (e) {
+    return {
+      success: false,
+      error: {
+        message: e instanceof Error ? e.message : 'Unknown error occurred'
+      }
+    };
+  }
+};
+
+export const verifyAuditLog = async (): Promise<AuditVerificationResult> => {
+  const { lines: entries } = await readLines();
+  let prevHash = GENESIS_HASH;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) {
+      return { valid: false, entriesChecked: i, brokenAt: i + 1, reason: `Line ${i + 1} is not a readable entry (possibly a write cut short)` };
+    }
+    const { hash, ...unsigned } = entry;
+
+    if (unsigned.seq !== i + 1) {
+      return { valid: false, entriesChecked: i, brokenAt: i + 1, reason: `Expected sequence ${i + 1} but found ${unsigned.seq}` };
+    }
+    if (unsigned.prevHash !== prevHash) {
+      return { valid: false, entriesChecked: i, brokenAt: unsigned.seq, reason: 'Previous hash does not match the preceding entry' };
+    }
+    if (computeEntryHash(unsigned) !== hash) {
+      return { valid: false, entriesChecked: i, brokenAt: unsigned.seq, reason: 'Entry contents do not match its hash' };
+    }
+    prevHash = hash;
+  }
+
+  return { valid: true, entriesChecked: entries.length };
+};
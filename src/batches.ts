@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { randomBytes } from 'crypto';
+
+/**
+ * Batch evaluation of multi-script workflows. Several code units, each carrying out
+ * one plan step, go to the approver in a single request. The approver can approve
+ * all of them, some of them or none; a unit is never approved when a unit it
+ * depends on is not. Approved units get their own execution tokens, and `execute`
+ * honours them in batch order: a unit only runs once every unit it depends on has
+ * run successfully, and is refused for good when one of them cannot.
+ *
+ * The approver answers with the usual `status`, plus `approvedUnits` (unit numbers)
+ * when only part of the batch is approved:
+ * { "status": "approved", "approvedUnits": [1, 2], "feedback": "Skip the upload for now" }
+ */
+
+export const MAX_BATCH_UNITS = 10;
+
+export const BatchUnitInputSchema = z.object({
+  step: z.number().int().positive().optional().describe("Plan step this unit carries out. Defaults to the unit's position in the batch"),
+  code: z.string().describe("The whole JavaScript/Node.js code of this unit"),
+  explanation_of_code: z.string().describe("A complete breakdown step by step of what the code does and what services or resources it will use"),
+  depends_on: z.array(z.number().int().positive()).optional().describe("Numbers (1-based positions in this batch) of earlier units whose output this unit needs")
+});
+
+export type BatchUnitInput = z.infer<typeof BatchUnitInputSchema>;
+
+export type BatchUnitDecision = 'approved' | 'rejected';
+
+export interface BatchUnitOutcome {
+  unit: number;
+  status: BatchUnitDecision;
+  decidedBy: 'policy' | 'approver' | 'dependency';
+  feedback?: string;
+}
+
+// What an execution records about the batch it came from
+export interface BatchPosition {
+  batchId: string;
+  unit: number;
+  totalUnits: number;
+  after: string[]; // Execution tokens of earlier approved units that must be executed first
+  dependsOn: number[]; // Units that must have run successfully first
+}
+
+// How a unit whose token was taken by `execute` got on
+export type BatchUnitRunState = 'running' | 'succeeded' | 'failed';
+
+export const createBatchId = (): string => `batch-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+
+// Dependencies may only point backwards, which also rules out cycles
+export const validateBatchDependencies = (units: BatchUnitInput[]): string | null => {
+  for (const [index, unit] of units.entries()) {
+    for (const dependency of unit.depends_on || []) {
+      if (dependency >= index + 1) {
+        return `Unit ${index + 1} depends on unit ${dependency}; units can only depend on units before them in the batch`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads the approver's answer for the units it was asked about. `approved` without
+ * `approvedUnits` approves all of them; anything but `approved` approves none.
+ */
+export const parseBatchApproval = (approvalResponse: any, askedUnits: number[]): Set<number> => {
+  let response = approvalResponse;
+  if (typeof response === 'string') {
+    try {
+      response = JSON.parse(response);
+    } catch (error) {
+      return new Set();
+    }
+  }
+  if (response?.status !== 'approved') return new Set();
+  if (!Array.isArray(response.approvedUnits)) return new Set(askedUnits);
+  return new Set(askedUnits.filter(unit => response.approvedUnits.includes(unit)));
+};
+
+/**
+ * Rejects every unit that depends on a rejected unit, following chains of
+ * dependencies. Units without an outcome yet are still waiting for the approver.
+ */
+export const applyDependencyRejections = (units: BatchUnitInput[], outcomes: Map<number, BatchUnitOutcome>): void => {
+  for (const [index, unit] of units.entries()) {
+    const number = index + 1;
+    if (outcomes.get(number)?.status === 'rejected') continue;
+    const blocked = (unit.depends_on || []).find(dependency => outcomes.get(dependency)?.status === 'rejected');
+    if (blocked !== undefined) {
+      outcomes.set(number, { unit: number, status: 'rejected', decidedBy: 'dependency', feedback: `Depends on unit ${blocked}, which was not approved` });
+    }
+  }
+};
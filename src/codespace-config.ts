@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import 'dotenv/config'
+
+/**
+ * Defaults for `create-github-codespace`, persisted so every new executor codespace
+ * gets the same repository, machine and lifetime settings without repeating them.
+ * Arguments passed to the tool always win over these defaults.
+ */
+
+const defaultsPath = process.env.CODESPACE_DEFAULTS_PATH || path.join(os.homedir(), '.keyboard-mcp', 'codespace-defaults.json');
+
+export const CODESPACE_REGIONS = ['EuropeWest', 'SoutheastAsia', 'UsEast', 'UsWest'] as const;
+
+// Limits enforced by the Codespaces API
+export const CodespaceCreationOptionsSchema = z.object({
+  repository: z.string().regex(/^[\w.-]+\/[\w.-]+$/, "Repository must look like 'owner/repo'").optional(),
+  branch: z.string().min(1).optional(),
+  machine: z.string().min(1).optional(),
+  region: z.enum(CODESPACE_REGIONS).optional(),
+  idleTimeoutMinutes: z.number().int().min(5).max(240).optional(),
+  retentionPeriodMinutes: z.number().int().min(0).max(43200).optional(),
+  devcontainerPath: z.string().min(1).optional()
+});
+
+export type CodespaceCreationOptions = z.infer<typeof CodespaceCreationOptionsSchema>;
+
+export const loadCodespaceDefaults = async (): Promise<{ defaults: CodespaceCreationOptions; error?: string }> => {
+  let contents: string;
+  try {
+    contents = await fs.readFile(defaultsPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { defaults: {} };
+    return { defaults: {}, error: `Failed to read codespace defaults: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  try {
+    return { defaults: CodespaceCreationOptionsSchema.parse(JSON.parse(contents)) };
+  } catch (error) {
+    return { defaults: {}, error: `Invalid codespace defaults file: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+};
+
+// Merges into the stored defaults; `replace` starts from empty instead
+export const saveCodespaceDefaults = async (
+  updates: CodespaceCreationOptions,
+  { replace = false }: { replace?: boolean } = {}
+): Promise<CodespaceCreationOptions> => {
+  const current = replace ? {} : (await loadCodespaceDefaults()).defaults;
+  const next = CodespaceCreationOptionsSchema.parse({ ...current, ...updates });
+
+  await fs.mkdir(path.dirname(defaultsPath), { recursive: true, mode: 0o700 });
+  const tmpPath = `${defaultsPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(next, null, 2), { mode: 0o600 });
+  await fs.rename(tmpPath, defaultsPath);
+  return next;
+};
+
+export const getCodespaceDefaultsPath = (): string => defaultsPath;
@@ -0,0 +1,350 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { listAllCodespacesForRepo, stopCodespace, deleteCodespace } from './codespaces.js';
+import { listRunningExecutions } from './executions.js';
+import { listPendingExecutions, DEFAULT_SESSION_ID } from './sessions.js';
+import { getLastExecutionTimes, recordAuditEvent } from './audit-log.js';
+import 'dotenv/config'
+
+/**
+ * Lifecycle janitor for executor codespaces. On every pass it stops codespaces that
+ * have been idle too long, stops the least recently used ones beyond the concurrency
+ * cap, and deletes codespaces that are too old or have not run code recently. Stopping
+ * is reversible and happens on its own; deletes are only carried out once the approver
+ * has accepted them. Codespaces with a running execution, or with an approved
+ * execution still waiting to run on them, are never touched.
+ */
+
+const policyPath = process.env.CODESPACE_JANITOR_POLICY_PATH || path.join(os.homedir(), '.keyboard-mcp', 'codespace-janitor.json');
+
+// A limit of 0 switches that rule off
+export const JanitorPolicySchema = z.object({
+  enabled: z.boolean().default(false),
+  intervalMinutes: z.number().int().min(1).max(1440).default(15),
+  stopIdleAfterMinutes: z.number().int().min(0).max(10080).default(30),
+  deleteOlderThanDays: z.number().int().min(0).max(365).default(14),
+  deleteUnusedForDays: z.number().int().min(0).max(365).default(7),
+  maxActiveCodespaces: z.number().int().min(0).max(50).default(2),
+  approvalTimeoutSeconds: z.number().int().min(10).max(3600).default(300)
+});
+
+export type JanitorPolicy = z.infer<typeof JanitorPolicySchema>;
+export type JanitorPolicyUpdates = Partial<JanitorPolicy>;
+
+export interface JanitorAction {
+  codespace: string;
+  repository?: string;
+  state?: string;
+  reason: string;
+}
+
+export interface DeletionCandidate extends JanitorAction {
+  createdAt: string;
+  lastExecutionAt?: string;
+}
+
+export interface JanitorReport {
+  success: boolean;
+  trigger: 'schedule' | 'manual';
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt?: string;
+  policy: JanitorPolicy;
+  codespacesChecked: number;
+  stopped: JanitorAction[];
+  deleted: JanitorAction[];
+  deletionApproval: 'not_needed' | 'approved' | 'rejected' | 'unavailable' | 'skipped';
+  pendingDeletions: DeletionCandidate[]; // Candidates that were not deleted on this pass
+  skipped: JanitorAction[];
+  errors: (JanitorAction & { action: 'stop' | 'delete' | 'list' })[];
+}
+
+// Resolves true/false with the approver's decision, or null when no approver is connected
+export type DeletionApprover = (candidates: DeletionCandidate[], timeoutMs: number) => Promise<boolean | null>;
+
+export interface RunJanitorParams {
+  token: string;
+  requestDeletionApproval: DeletionApprover;
+  trigger?: JanitorReport['trigger'];
+  dryRun?: boolean;
+  policy?: JanitorPolicy;
+  protectedCodespaces?: string[]; // Never deleted, but still stopped when idle
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+let lastReport: JanitorReport | null = null;
+let activeRun: Promise<JanitorReport> | null = null;
+let scheduleTimer: NodeJS.Timeout | null = null;
+
+export const loadJanitorPolicy = async (): Promise<{ policy: JanitorPolicy; error?: string }> => {
+  let contents: string;
+  try {
+    contents = await fs.readFile(policyPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { policy: JanitorPolicySchema.parse({}) };
+    return { policy: JanitorPolicySchema.parse({}), error: `Failed to read janitor policy: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  try {
+    return { policy: JanitorPolicySchema.parse(JSON.parse(contents)) };
+  } catch (error) {
+    return { policy: JanitorPolicySchema.parse({}), error: `Invalid janitor policy file: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+};
+
+// Merges into the stored policy; `replace` starts from the built-in defaults instead
+export const saveJanitorPolicy = async (
+  updates: JanitorPolicyUpdates,
+  { replace = false }: { replace?: boolean } = {}
+): Promise<JanitorPolicy> => {
+  const current = replace ? {} : (await loadJanitorPolicy()).policy;
+  const next = JanitorPolicySchema.parse({ ...current, ...updates });
+
+  await fs.mkdir(path.dirname(policyPath), { recursive: true, mode: 0o700 });
+  const tmpPath = `${policyPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(next, null, 2), { mode: 0o600 });
+  await fs.rename(tmpPath, policyPath);
+  return next;
+};
+
+export const getJanitorPolicyPath = (): string => policyPath;
+
+export const getLastJanitorReport = (): JanitorReport | null => lastReport;
+
+// Why a codespace cannot be stopped or deleted right now, if it cannot: 'execute' needs it
+const findInUseReason = (codespaceName: string): string | null => {
+  if (listRunningExecutions().some(job => job.target === codespaceName)) return 'An execution is running on it';
+  const waiting = listPendingExecutions(DEFAULT_SESSION_ID, { allSessions: true })
+    .some(entry => entry.status === 'approved' && entry.codespaceName === codespaceName);
+  return waiting ? 'An approved execution is waiting to run on it' : null;
+};
+
+const describe = (codespace: any, reason: string): JanitorAction => ({
+  codespace: codespace.name,
+  repository: codespace.repository?.full_name,
+  state: codespace.state,
+  reason
+});
+
+const runJanitorPass = async ({
+  token,
+  requestDeletionApproval,
+  trigger = 'manual',
+  dryRun = false,
+  policy,
+  protectedCodespaces = []
+}: RunJanitorParams): Promise<JanitorReport> => {
+  const activePolicy = policy || (await loadJanitorPolicy()).policy;
+  const report: JanitorReport = {
+    success: true,
+    trigger,
+    dryRun,
+    startedAt: new Date().toISOString(),
+    policy: activePolicy,
+    codespacesChecked: 0,
+    stopped: [],
+    deleted: [],
+    deletionApproval: 'not_needed',
+    pendingDeletions: [],
+    skipped: [],
+    errors: []
+  };
+
+  const listing = await listAllCodespacesForRepo({ token });
+  if (!listing.success) {
+    report.success = false;
+    report.errors.push({ codespace: '*', action: 'list', reason: listing.error?.message || 'Failed to list codespaces' });
+    report.finishedAt = new Date().toISOString();
+    return report;
+  }
+
+  const now = Date.now();
+  const codespaces: any[] = listing.codespaces;
+  let lastExecutions = new Map<string, number>();
+  try {
+    lastExecutions = await getLastExecutionTimes();
+  } catch (error) {
+    console.error('⚠️ Codespace janitor could not read execution history from the audit log:', error);
+  }
+  const inUse = new Map(codespaces.map(codespace => [codespace.name, findInUseReason(codespace.name)]));
+  report.codespacesChecked = codespaces.length;
+
+  const lastActivity = (codespace: any): number => Math.max(
+    Date.parse(codespace.last_used_at || '') || 0,
+    lastExecutions.get(codespace.name) || 0,
+    Date.parse(codespace.created_at) || 0
+  );
+
+  const toStop: JanitorAction[] = [];
+  const toDelete: DeletionCandidate[] = [];
+  const stillActive: any[] = [];
+
+  for (const codespace of codespaces) {
+    const inUseReason = inUse.get(codespace.name);
+    if (inUseReason) {
+      report.skipped.push(describe(codespace, inUseReason));
+      continue;
+    }
+
+    const createdAt = Date.parse(codespace.created_at) || now;
+    const lastExecution = lastExecutions.get(codespace.name);
+    const ageDays = (now - createdAt) / DAY_MS;
+    const unusedDays = (now - (lastExecution || createdAt)) / DAY_MS;
+
+    let deleteReason: string | null = null;
+    if (activePolicy.deleteOlderThanDays > 0 && ageDays >= activePolicy.deleteOlderThanDays) {
+      deleteReason = `Created ${Math.floor(ageDays)} days ago (limit ${activePolicy.deleteOlderThanDays})`;
+    } else if (activePolicy.deleteUnusedForDays > 0 && unusedDays >= activePolicy.deleteUnusedForDays) {
+      deleteReason = lastExecution
+        ? `No executions for ${Math.floor(unusedDays)} days (limit ${activePolicy.deleteUnusedForDays})`
+        : `No executions since it was created ${Math.floor(ageDays)} days ago (limit ${activePolicy.deleteUnusedForDays})`;
+    }
+
+    if (deleteReason && protectedCodespaces.includes(codespace.name)) {
+      report.skipped.push(describe(codespace, `Selected codespace, not deleted: ${deleteReason}`));
+      deleteReason = null;
+    }
+
+    if (deleteReason) {
+      toDelete.push({
+        ...describe(codespace, deleteReason),
+        createdAt: codespace.created_at,
+        ...(lastExecution ? { lastExecutionAt: new Date(lastExecution).toISOString() } : {})
+      });
+      continue;
+    }
+
+    if (codespace.state !== 'Available') continue;
+
+    const idleMinutes = (now - lastActivity(codespace)) / MINUTE_MS;
+    if (activePolicy.stopIdleAfterMinutes > 0 && idleMinutes >= activePolicy.stopIdleAfterMinutes) {
+      toStop.push(describe(codespace, `Idle for ${Math.floor(idleMinutes)} minutes (limit ${activePolicy.stopIdleAfterMinutes})`));
+    } else {
+      stillActive.push(codespace);
+    }
+  }
+
+  // Codespaces in use count towards the cap but cannot be stopped
+  const busyActive = codespaces.filter(codespace => inUse.get(codespace.name) && codespace.state === 'Available').length;
+  if (activePolicy.maxActiveCodespaces > 0) {
+    const excess = stillActive.length + busyActive - activePolicy.maxActiveCodespaces;
+    if (excess > 0) {
+      stillActive
+        .sort((a, b) => lastActivity(a) - lastActivity(b))
+        .slice(0, excess)
+        .forEach(codespace => toStop.push(describe(codespace, `More than ${activePolicy.maxActiveCodespaces} active executor codespaces; least recently used`)));
+    }
+  }
+
+  if (dryRun) {
+    report.stopped = toStop;
+    report.pendingDeletions = toDelete;
+    report.deletionApproval = toDelete.length > 0 ? 'skipped' : 'not_needed';
+    report.finishedAt = new Date().toISOString();
+    return report;
+  }
+
+  // Executions can be approved or start while this pass runs (deletions wait for the approver), so check again right before acting
+  for (const action of toStop) {
+    const inUseReason = findInUseReason(action.codespace);
+    if (inUseReason) {
+      report.skipped.push({ ...action, reason: `${inUseReason} (found after this pass started)` });
+      continue;
+    }
+    const response = await stopCodespace({ codespaceName: action.codespace, token });
+    if (response.success) {
+      report.stopped.push(action);
+      await recordAuditEvent('codespace_stopped', { codespace: action.codespace, reason: action.reason, trigger });
+    } else {
+      report.errors.push({ ...action, action: 'stop', reason: response.error?.message || 'Failed to stop codespace' });
+    }
+  }
+
+  if (toDelete.length > 0) {
+    const approved = await requestDeletionApproval(toDelete, activePolicy.approvalTimeoutSeconds * 1000);
+    report.deletionApproval = approved === null ? 'unavailable' : approved ? 'approved' : 'rejected';
+
+    if (approved) {
+      for (const candidate of toDelete) {
+        const inUseReason = findInUseReason(candidate.codespace);
+        if (inUseReason) {
+          report.skipped.push({ ...candidate, reason: `${inUseReason} (found while deletion was being approved)` });
+          report.pendingDeletions.push(candidate);
+          continue;
+        }
+        const response = await deleteCodespace({ codespaceName: candidate.codespace, token });
+        if (response.success) {
+          report.deleted.push(candidate);
+          await recordAuditEvent('codespace_deleted', { codespace: candidate.codespace, reason: candidate.reason, trigger });
+        } else {
+          report.errors.push({ ...candidate, action: 'delete', reason: response.error?.message || 'Failed to delete codespace' });
+          report.pendingDeletions.push(candidate);
+        }
+      }
+    } else {
+      report.pendingDeletions = toDelete;
+    }
+  }
+
+  report.success = report.errors.length === 0;
+  report.finishedAt = new Date().toISOString();
+  return report;
+};
+
+// Passes never overlap; a request made while one is in progress gets that pass's report
+export const runCodespaceJanitor = async (params: RunJanitorParams): Promise<JanitorReport> => {
+  if (activeRun) return activeRun;
+
+  activeRun = runJanitorPass(params)
+    .then(report => {
+      if (!report.dryRun) lastReport = report;
+      return report;
+    })
+    .finally(() => {
+      activeRun = null;
+    });
+  return activeRun;
+};
+
+/**
+ * Runs the janitor in the background. The policy is re-read before every pass, so
+ * enabling, disabling or retuning it takes effect without a restart. The timer does
+ * not keep the process alive.
+ */
+export const startCodespaceJanitor = (params: Omit<RunJanitorParams, 'trigger' | 'dryRun' | 'policy'> & { getProtectedCodespaces?: () => string[] }): void => {
+  if (scheduleTimer) return;
+
+  const { getProtectedCodespaces, ...runParams } = params;
+  const schedule = (minutes: number) => {
+    scheduleTimer = setTimeout(tick, minutes * MINUTE_MS);
+    scheduleTimer.unref();
+  };
+
+  const tick = async () => {
+    const { policy, error } = await loadJanitorPolicy();
+    if (error) {
+      console.error(`⚠️ Codespace janitor skipped: ${error}`);
+    } else if (policy.enabled) {
+      try {
+        const report = await runCodespaceJanitor({
+          ...runParams,
+          trigger: 'schedule',
+          policy,
+          protectedCodespaces: getProtectedCodespaces ? getProtectedCodespaces() : runParams.protectedCodespaces
+        });
+        if (report.stopped.length || report.deleted.length || report.errors.length) {
+          console.error(`🧹 Codespace janitor: stopped ${report.stopped.length}, deleted ${report.deleted.length}, errors ${report.errors.length}`);
+        }
+      } catch (e) {
+        console.error('⚠️ Codespace janitor pass failed:', e);
+      }
+    }
+    schedule(policy.intervalMinutes);
+  };
+
+  schedule(1);
+};
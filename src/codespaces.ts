@@ -1,12 +1,22 @@
 import { WebSocketManager, WebSocketMessage } from './approver.js';
-import { Octokit } from "@octokit/rest";
+import { getOctokit } from "./github-client.js";
 import 'dotenv/config'
 let encryptMessages = process.env.ENCRYPT_MESSAGES || true
 let customAPIPort = process.env.CUSTOM_API_PORT || 8081
+// Encrypt/decrypt inside keyboard-mcp instead of round-tripping plaintext to the approver's API
+let localEncryption = process.env.LOCAL_ENCRYPTION === 'true'
 import axios from 'axios'
 import { any } from 'zod/v4';
-
-const encryptMessage = async (code: string, token: string) => {
+import { encrypt, decrypt, getExecutorKeyId } from './encryption.js';
+import { getExecutorRepoIndex, listUserCodespaces } from './executor-repos.js';
+
+const encryptMessage = async (code: string, token?: string) => {
+  if (localEncryption) {
+    // The executor only holds ENCRYPTION_KEY, never the local keyring
+    const keyId = getExecutorKeyId();
+    if (!keyId) throw new Error('LOCAL_ENCRYPTION=true requires ENCRYPTION_KEY, shared with the executor');
+    return encrypt(code, keyId);
+  }
   const response = await axios.post(`http://127.0.0.1:${customAPIPort}/api/encrypt`, { code }, {
     headers: {
       'Authorization': `Bearer ${token}`,
@@ -17,7 +27,10 @@ const encryptMessage = async (code: string, token: string) => {
   return response.data.encryptedCode;
 }
 
-const decryptMessage = async (code: string, token: string) => {
+const decryptMessage = async (code: string, token?: string) => {
+  if (localEncryption) {
+    return decrypt(code);
+  }
   const response = await axios.post(`http://127.0.0.1:${customAPIPort}/api/decrypt`, { code }, {
     headers: {
       'Authorization': `Bearer ${token}`,
@@ -33,6 +46,11 @@ interface CreateCodespaceParams {
   owner?: string;
   repo?: string;
   branch?: string;
+  machine?: string; // Must be one of the repository's available machines
+  region?: 'EuropeWest' | 'SoutheastAsia' | 'UsEast' | 'UsWest'; // Assigned by IP when omitted
+  idleTimeoutMinutes?: number;
+  retentionPeriodMinutes?: number;
+  devcontainerPath?: string;
 }
 
 interface ListCodespacesParams {
@@ -47,6 +65,24 @@ interface ExecuteCodeParams {
   wsManager?: WebSocketManager | null;
   userId?: string;
   aiEvalSettings?: boolean;
+  onOutput?: (chunk: ExecutionOutputChunk) => void | Promise<void>; // Asks the executor to stream output
+  executionId?: string; // Sent to the executor so the run can be killed by id
+  signal?: AbortSignal; // Aborting stops the request and asks the executor to kill the run
+  timeoutMs?: number; // Wall-clock limit for the run itself (not the approval of its result)
+  onRunComplete?: () => void; // The executor answered; the result now goes to the approver
+}
+
+export interface ExecutionOutputChunk {
+  stream: 'stdout' | 'stderr';
+  data: string; // Decrypted chunk text, or '' when it could not be decrypted
+  bytes: number; // Size of the decrypted text, or of the raw payload when still encrypted
+  sequence: number;
+  encrypted: boolean; // The chunk arrived encrypted and could not be decrypted locally
+}
+
+interface ExecutionStreamEvent {
+  type: string;
+  data: string;
 }
 
 interface Repository {
@@ -59,88 +95,25 @@ interface Repository {
   private: boolean;
 }
 
-export const findCodespaceExecutorRepos = async (token: string): Promise<any | Error> => {
+export const findCodespaceExecutorRepos = async (token: string, { forceRefresh = false }: { forceRefresh?: boolean } = {}): Promise<any | Error> => {
   try {
-    const octokit = new Octokit({
-      auth: token,
-    });
-
-    // Get all repositories for the authenticated user
-    const response = await octokit.rest.repos.listForAuthenticatedUser({
-      per_page: 100, // Maximum per page
-      sort: 'updated',
-      direction: 'desc'
-    });
-
-    // Filter repositories that contain "codespace-executor" in the name
-    const codespaceRepos = response.data.filter((repo: Repository) =>
-      repo.name.toLowerCase().includes('codespace-executor')
-    );
-
-    // Also check user's organizations for codespace-executor repos
-    let orgRepos: Repository[] = [];
-    try {
-      const orgsResponse = await octokit.rest.orgs.listForAuthenticatedUser();
-
-      for (const org of orgsResponse.data) {
-        const orgReposResponse = await octokit.rest.repos.listForOrg({
-          org: org.login,
-          per_page: 100
-        });
-
-        const orgCodespaceRepos = orgReposResponse.data.filter((repo: Repository) =>
-          repo.name.toLowerCase().includes('codespace-executor')
-        );
-
-        orgRepos = orgRepos.concat(orgCodespaceRepos);
-      }
-    } catch (orgError) {
-      console.warn('Could not fetch organization repositories:', orgError);
-      // Continue without org repos if there's an error
-    }
-
-    const allCodespaceRepos = [...codespaceRepos, ...orgRepos];
-
-    // Test codespace access for each found repository
-    const reposWithCodespaceAccess: any = [];
-    const reposWithoutCodespaceAccess = [];
-
-    for (const repo of allCodespaceRepos) {
-      try {
-        // Try to get available machines for the repository - this tests codespace access
-        await octokit.rest.codespaces.repoMachinesForAuthenticatedUser({
-          owner: repo.owner.login,
-          repo: repo.name,
-        });
-
-        reposWithCodespaceAccess.push({
-          ...repo,
-          codespaceAccess: true
-        });
-      } catch (error: any) {
-        // If we get a 404 or 403, the repo doesn't have codespace access
-        reposWithoutCodespaceAccess.push({
-          ...repo,
-          codespaceAccess: false,
-          error: error.message || 'Access denied'
-        });
-      }
-    }
+    const index = await getExecutorRepoIndex(token, { forceRefresh });
+    const reposWithoutCodespaceAccess = index.allFoundRepos.filter(repo => !repo.codespaceAccess);
 
     return {
       success: true,
-      repositories: reposWithCodespaceAccess, // Only return repos with codespace access
-      allFoundRepos: allCodespaceRepos, // All found repos regardless of access
-      count: reposWithCodespaceAccess.length,
-      totalFound: allCodespaceRepos.length,
-      userRepos: codespaceRepos.filter(repo =>
-        reposWithCodespaceAccess.some((accessRepo: any) => accessRepo.full_name === repo.full_name)
-      ),
-      orgRepos: orgRepos.filter(repo =>
-        reposWithCodespaceAccess.some((accessRepo: any) => accessRepo.full_name === repo.full_name)
-      ),
+      repositories: index.repositories, // Only return repos with codespace access
+      allFoundRepos: index.allFoundRepos, // All found repos regardless of access
+      count: index.repositories.length,
+      totalFound: index.allFoundRepos.length,
+      userRepos: index.repositories.filter(repo => repo.origin === 'user'),
+      orgRepos: index.repositories.filter(repo => repo.origin === 'org'),
+      source: index.source,
+      fetchedAt: index.fetchedAt,
+      expiresAt: index.expiresAt,
+      requestStats: index.stats,
       accessSummary: {
-        withAccess: reposWithCodespaceAccess.length,
+        withAccess: index.repositories.length,
         withoutAccess: reposWithoutCodespaceAccess.length,
         reposWithoutAccess: reposWithoutCodespaceAccess
       }
@@ -169,93 +142,121 @@ export const findCodespaceExecutorRepos = async (token: string): Promise<any | E
 
 export const createInteractiveDocsCodespace = async ({
   token,
-  branch = "main"
+  owner,
+  repo,
+  branch = "main",
+  machine,
+  region,
+  idleTimeoutMinutes,
+  retentionPeriodMinutes,
+  devcontainerPath
 }: CreateCodespaceParams): Promise<any | Error> => {
-  let actualOwner = 'keyboard-dev';
-  let actualRepo = 'codespace-executor';
+  let actualOwner = owner || 'keyboard-dev';
+  let actualRepo = repo || 'codespace-executor';
   let allRepos = []
 
   try {
+    // Without an explicit repository, use the first codespace-executor repo with codespace access
+    if (!owner || !repo) {
+      const repoSearchResult = await findCodespaceExecutorRepos(token);
+      allRepos = repoSearchResult.repositories || [];
 
-    // Determine the actual owner and repo to use
-
-    // If no owner/repo specified, try to find codespace-executor repos
-
-    const repoSearchResult = await findCodespaceExecutorRepos(token);
-    allRepos = repoSearchResult.repositories || [];
-
-    if (!repoSearchResult.success) {
-      return {
-        success: false,
-        error: {
-          message: 'Failed to search for codespace-executor repositories: ' + repoSearchResult.error?.message
-        }
-      };
-    }
-
-    if (repoSearchResult.repositories && repoSearchResult.repositories.length > 0) {
-      // Use the first found codespace-executor repo
-      const foundRepo = repoSearchResult.repositories[0];
-      actualOwner = foundRepo.owner.login;
-      actualRepo = foundRepo.name;
-    } else {
-      // Return error if no codespace-executor repos found - user needs to fork first
-      return {
-        success: false,
-        error: {
-          message: 'No codespace-executor repository found in your account. Please fork https://github.com/keyboard-dev/codespace-executor first, then try again.'
-        }
-      };
-    }
-
-    const body = {
-      "owner": actualOwner,
-      "repo": actualRepo,
-      "branch": branch,
+      if (!repoSearchResult.success) {
+        return {
+          success: false,
+          error: {
+            message: 'Failed to search for codespace-executor repositories: ' + repoSearchResult.error?.message
+          }
+        };
+      }
 
+      if (repoSearchResult.repositories && repoSearchResult.repositories.length > 0) {
+        const foundRepo = repoSearchResult.repositories[0];
+        actualOwner = foundRepo.owner.login;
+        actualRepo = foundRepo.name;
+      } else {
+        // Return error if no codespace-executor repos found - user needs to fork first
+        return {
+          success: false,
+          error: {
+            message: 'No codespace-executor repository found in your account. Please fork https://github.com/keyboard-dev/codespace-executor first, then try again.'
+          }
+        };
+      }
     }
 
-    const { owner: bodyOwner, repo: bodyRepo, branch: bodyBranch = "main" } = body;
-
+    const octokit = getOctokit(token);
 
-
-    const octokit = new Octokit({
-      auth: token,
-    });
-
-    // First, get available machine types for the repository
+    // Machines depend on the repository, the branch and the user's plan
     let machinesResponse;
     let availableMachines: any[] = [];
     try {
       machinesResponse = await octokit.rest.codespaces.repoMachinesForAuthenticatedUser({
-        owner: bodyOwner,
-        repo: bodyRepo,
+        owner: actualOwner,
+        repo: actualRepo,
+        ref: branch,
       });
       availableMachines = machinesResponse.data.machines;
     } catch (error) {
-      // If the repo doesn't exist, we can still create a codespace with default machine
-      console.warn(`Could not fetch machines for repo ${bodyOwner}/${bodyRepo}:`, error);
+      if (machine) {
+        return {
+          success: false,
+          error: {
+            message: `Could not fetch machines for ${actualOwner}/${actualRepo} to validate machine '${machine}': ${error instanceof Error ? error.message : 'Unknown error'}`
+          }
+        };
+      }
+      // Without a requested machine we can still create a codespace with the default one
+      console.warn(`Could not fetch machines for repo ${actualOwner}/${actualRepo}:`, error);
     }
 
-
-
-
-    // Check if premiumLinux is available, otherwise use standardLinux32gb
     let selectedMachine = "standardLinux32gb"; // default fallback
-    if (availableMachines.some(machine => machine?.name === "premiumLinux")) {
+    if (machine) {
+      if (!availableMachines.some(available => available?.name === machine)) {
+        return {
+          success: false,
+          error: {
+            message: `Machine '${machine}' is not available for ${actualOwner}/${actualRepo}@${branch}. Available machines: ${availableMachines.map(available => available.name).join(', ') || 'none'}`
+          }
+        };
+      }
+      selectedMachine = machine;
+    } else if (availableMachines.some(available => available?.name === "premiumLinux")) {
       selectedMachine = "premiumLinux";
+    } else if (availableMachines.length > 0 && !availableMachines.some(available => available?.name === selectedMachine)) {
+      selectedMachine = availableMachines[0].name;
     }
 
-    // if (availableMachines.some(machine => machine.name === "premiumLinux")) {
-    //   selectedMachine = "premiumLinux";
-    // }
+    if (devcontainerPath) {
+      try {
+        const devcontainers = await octokit.rest.codespaces.listDevcontainersInRepositoryForAuthenticatedUser({
+          owner: actualOwner,
+          repo: actualRepo,
+          per_page: 100,
+        });
+        const paths = devcontainers.data.devcontainers.map(devcontainer => devcontainer.path);
+        if (paths.length > 0 && !paths.includes(devcontainerPath)) {
+          return {
+            success: false,
+            error: {
+              message: `Devcontainer '${devcontainerPath}' was not found in ${actualOwner}/${actualRepo}. Available devcontainers: ${paths.join(', ')}`
+            }
+          };
+        }
+      } catch (error) {
+        console.warn(`Could not list devcontainers for repo ${actualOwner}/${actualRepo}:`, error);
+      }
+    }
 
     const response = await octokit.rest.codespaces.createWithRepoForAuthenticatedUser({
-      owner: bodyOwner,
-      repo: bodyRepo,
-      ref: bodyBranch,
-      location: "WestUs2",
+      owner: actualOwner,
+      repo: actualRepo,
+      ref: branch,
       machine: selectedMachine,
+      ...(region ? { geo: region } : {}),
+      ...(idleTimeoutMinutes !== undefined ? { idle_timeout_minutes: idleTimeoutMinutes } : {}),
+      ...(retentionPeriodMinutes !== undefined ? { retention_period_minutes: retentionPeriodMinutes } : {}),
+      ...(devcontainerPath ? { devcontainer_path: devcontainerPath } : {}),
     });
 
     return {
@@ -264,7 +265,14 @@ export const createInteractiveDocsCodespace = async ({
       url: response.data.web_url,
       selectedMachine: selectedMachine,
       availableMachines: machinesResponse?.data,
-      foundRepoInfo: { owner: actualOwner, repo: actualRepo }
+      foundRepoInfo: { owner: actualOwner, repo: actualRepo },
+      settings: {
+        branch,
+        region: region || 'assigned by IP',
+        idleTimeoutMinutes: response.data.idle_timeout_minutes ?? idleTimeoutMinutes,
+        retentionPeriodMinutes: response.data.retention_period_minutes ?? retentionPeriodMinutes,
+        devcontainerPath: devcontainerPath || null
+      }
     };
   } catch (e) {
     if (e && typeof e === 'object' && 'response' in e) {
@@ -295,11 +303,7 @@ export const listActiveCodespacesForRepo = async ({
   repo,
 }: ListCodespacesParams): Promise<any | Error> => {
   try {
-    const octokit = new Octokit({
-      auth: token,
-    });
-
-    const response = await octokit.rest.codespaces.listForAuthenticatedUser();
+    const userCodespaces = await listUserCodespaces(token);
 
     // If no repo specified, try to find codespace-executor repos
     let repoNames: string[] = [];
@@ -307,7 +311,7 @@ export const listActiveCodespacesForRepo = async ({
       const repoSearchResult = await findCodespaceExecutorRepos(token);
 
       if (repoSearchResult.success && repoSearchResult.repositories && repoSearchResult.repositories.length > 0) {
-        repoNames = repoSearchResult.repositories.map((r: Repository) => r.name);
+        repoNames = repoSearchResult.repositories.map((r: Repository) => r.full_name.toLowerCase());
       } else {
         return {
           success: false,
@@ -321,8 +325,10 @@ export const listActiveCodespacesForRepo = async ({
     }
 
     // Filter codespaces by repo names and only include active ones
-    const matchingCodespaces = response.data.codespaces.filter((codespace: any) =>
-      repoNames.includes(codespace.repository?.name) &&
+    // Discovered repos match on full name so same-named forks in other accounts are not mixed in;
+    // EXECUTOR_REPOS may be written in any case, as GitHub names are case-insensitive
+    const matchingCodespaces = userCodespaces.filter((codespace: any) =>
+      (repo ? codespace.repository?.name?.toLowerCase() === repo.toLowerCase() : repoNames.includes(codespace.repository?.full_name?.toLowerCase())) &&
       codespace.state === 'Available'
     );
 
@@ -367,11 +373,7 @@ export const listAllCodespacesForRepo = async ({
   repo,
 }: ListCodespacesParams): Promise<any | Error> => {
   try {
-    const octokit = new Octokit({
-      auth: token,
-    });
-
-    const response = await octokit.rest.codespaces.listForAuthenticatedUser();
+    const userCodespaces = await listUserCodespaces(token);
 
     // If no repo specified, try to find codespace-executor repos
     let repoNames: string[] = [];
@@ -379,7 +381,7 @@ export const listAllCodespacesForRepo = async ({
       const repoSearchResult = await findCodespaceExecutorRepos(token);
 
       if (repoSearchResult.success && repoSearchResult.repositories && repoSearchResult.repositories.length > 0) {
-        repoNames = repoSearchResult.repositories.map((r: Repository) => r.name);
+        repoNames = repoSearchResult.repositories.map((r: Repository) => r.full_name.toLowerCase());
       } else {
         return {
           success: false,
@@ -392,9 +394,9 @@ export const listAllCodespacesForRepo = async ({
       repoNames = [repo];
     }
 
-    // Filter codespaces by repo names (include all states)
-    const matchingCodespaces = response.data.codespaces.filter((codespace: any) =>
-      repoNames.includes(codespace.repository?.name)
+    // Filter codespaces by repo names (include all states); GitHub names are case-insensitive
+    const matchingCodespaces = userCodespaces.filter((codespace: any) =>
+      repo ? codespace.repository?.name?.toLowerCase() === repo.toLowerCase() : repoNames.includes(codespace.repository?.full_name?.toLowerCase())
     );
 
     // Group by state for better organization
@@ -463,14 +465,169 @@ export const generateCodespacePortUrl = (codespace: any, port: number = 3000): s
   }
 };
 
+// Executor credentials; an executor configured without one gets no auth headers at all
+const executorAuthHeaders = (token: string): Record<string, string> =>
+  token ? { 'Authorization': token, 'x-github-token': token } : {};
+
+// Splits an SSE (text/event-stream) or NDJSON (application/x-ndjson) body into events
+const readExecutionStream = async (
+  response: Response,
+  onEvent: (event: ExecutionStreamEvent) => Promise<void>
+): Promise<void> => {
+  const isSse = (response.headers.get('content-type') || '').includes('text/event-stream');
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const flush = async (block: string) => {
+    if (!block.trim()) return;
+    if (isSse) {
+      let type = 'message';
+      const data: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith(':')) continue;
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+        if (field === 'event') type = value;
+        if (field === 'data') data.push(value);
+      }
+      if (data.length > 0) await onEvent({ type, data: data.join('\n') });
+    } else {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(block);
+      } catch (error) {
+        // One garbled line must not sink the whole run; the final result still decides the outcome
+        console.error(`⚠️ Skipping malformed executor stream line: ${block.slice(0, 200)}`);
+        return;
+      }
+      const type = parsed.type || parsed.stream || 'message';
+      await onEvent({ type, data: typeof parsed.data === 'string' ? parsed.data : JSON.stringify(parsed.data ?? parsed) });
+    }
+  };
+
+  const boundary = isSse ? /\r?\n\r?\n/ : /\r?\n/;
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+
+      const blocks = buffered.split(boundary);
+      buffered = done ? '' : blocks.pop() || '';
+      for (const block of blocks) {
+        await flush(block);
+      }
+      if (done) break;
+    }
+    finished = true;
+  } finally {
+    // Stop the download when we bail out early so the connection is released
+    if (!finished) await reader.cancel().catch(() => undefined);
+  }
+};
+
+// Forwards stdout/stderr events as they arrive and returns the executor's final response body
+const collectStreamedExecution = async (
+  response: Response,
+  onOutput: NonNullable<ExecuteCodeParams['onOutput']>,
+  userToken?: string
+): Promise<any> => {
+  let finalResponse: any = null;
+  let sequence = 0;
+  const output = { stdout: '', stderr: '' };
+
+  await readExecutionStream(response, async (event) => {
+    if (event.type === 'stdout' || event.type === 'stderr') {
+      let data = event.data;
+      let encrypted = false;
+      if (encryptMessages) {
+        try {
+          data = await decryptMessage(event.data, userToken);
+        } catch (e) {
+          data = '';
+          encrypted = true;
+        }
+      }
+      output[event.type] += data;
+      await onOutput({ stream: event.type, data, bytes: encrypted ? event.data.length : Buffer.byteLength(data), sequence: sequence++, encrypted });
+    } else if (event.type === 'result') {
+      finalResponse = JSON.parse(event.data);
+    } else if (event.type === 'error') {
+      throw new Error(`Executor reported an error: ${event.data}`);
+    }
+  });
+
+  if (finalResponse) return finalResponse;
+  // Encrypted output is only released through the final result event
+  if (encryptMessages) {
+    throw new Error('Executor stream ended without a result event');
+  }
+  return { success: true, data: { stdout: output.stdout, stderr: output.stderr } };
+};
+
+// Best effort: asks the executor to kill a run that keyboard-mcp stopped waiting for
+export const cancelExecutionOnCodespace = async ({
+  codespaceUrl,
+  token,
+  executionId
+}: {
+  codespaceUrl: string;
+  token: string;
+  executionId: string;
+}): Promise<any | Error> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 10000);
+  try {
+    const response = await fetch(`${codespaceUrl}/cancel`, {
+      method: 'POST',
+      headers: {
+        ...executorAuthHeaders(token),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ execution_id: executionId }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status} - ${response.statusText}`);
+    }
+
+    return {
+      success: true,
+      message: `Executor acknowledged cancellation of ${executionId}`
+    };
+  } catch (e) {
+    return {
+      success: false,
+      error: {
+        message: e instanceof Error ? e.message : 'Unknown error occurred'
+      }
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
 export const executeCodeOnCodespace = async ({
   codespaceUrl,
   code,
   token,
   wsManager,
   userId = "unknown_user",
-  aiEvalSettings = false
+  aiEvalSettings = false,
+  onOutput,
+  executionId,
+  signal,
+  timeoutMs,
+  onRunComplete
 }: ExecuteCodeParams): Promise<any | Error> => {
+  // Caller cancellation and the wall-clock limit both abort this controller
+  const runController = new AbortController();
+  const abortFromCaller = () => runController.abort(signal?.reason);
+  let runTimer: ReturnType<typeof setTimeout> | null = null;
+
   try {
     if (!codespaceUrl) {
       throw new Error("Codespace URL is required");
@@ -488,12 +645,13 @@ export const executeCodeOnCodespace = async ({
     const executeUrl = `${codespaceUrl}/execute`;
     let userToken;
     if (encryptMessages) {
-      let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
-      }, 3000)
+      if (!localEncryption) {
+        let tokens = await wsManager?.sendAndWaitForTokenResponse({
+          "type": "request-token"
+        }, 3000)
 
-      userToken = tokens.token;
+        userToken = tokens.token;
+      }
       const encryptedCode = await encryptMessage(code, userToken);
       console.warn("encryptedCode", encryptedCode)
       code = encryptedCode;
@@ -502,24 +660,49 @@ export const executeCodeOnCodespace = async ({
     const requestBody = JSON.stringify({
       code: code,
       ai_eval: aiEvalSettings,
-      encrypt_messages: encryptMessages
+      encrypt_messages: encryptMessages,
+      ...(onOutput ? { stream: true } : {}),
+      ...(executionId ? { execution_id: executionId } : {}),
+      ...(timeoutMs ? { timeout_ms: timeoutMs } : {})
     });
 
+    if (signal?.aborted) {
+      abortFromCaller();
+    } else {
+      signal?.addEventListener('abort', abortFromCaller, { once: true });
+    }
+    if (timeoutMs) {
+      runTimer = setTimeout(() => runController.abort(`Execution exceeded its ${Math.round(timeoutMs / 1000)}s wall-clock limit`), timeoutMs);
+    }
+    runController.signal.throwIfAborted();
+
     const response = await fetch(executeUrl, {
       method: 'POST',
       headers: {
-        'Authorization': token,
-        'x-github-token': token,
+        ...executorAuthHeaders(token),
         'Content-Type': 'application/json',
+        // Executors without streaming support ignore this and answer with plain JSON
+        ...(onOutput ? { 'Accept': 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8' } : {})
       },
       body: requestBody,
+      signal: runController.signal,
     });
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status} - ${response.statusText}`);
     }
 
-    const responseData: any = await response.json();
+    const contentType = response.headers.get('content-type') || '';
+    const isStreamed = /text\/event-stream|application\/x-ndjson/.test(contentType);
+    const responseData: any = onOutput && isStreamed && response.body
+      ? await collectStreamedExecution(response, onOutput, userToken)
+      : await response.json();
+
+    // The run is over; waiting for the approver below is not part of the limit
+    if (runTimer) clearTimeout(runTimer);
+    signal?.removeEventListener('abort', abortFromCaller);
+    onRunComplete?.();
+
     let responseBody = responseData || { "success": false, "error": "No response from codespace" }
 
     let approvalMessage = {
@@ -534,8 +717,8 @@ export const executeCodeOnCodespace = async ({
       requiresResponse: true
     };
 
+    let decryptedResponseBody;
     if (encryptMessages) {
-      let decryptedResponseBody;
       try {
         console.warn("responseBody", responseBody)
         decryptedResponseBody = await decryptMessage(responseBody.data, userToken)
@@ -596,15 +779,34 @@ export const executeCodeOnCodespace = async ({
     return {
       success: true,
       webSocketResponse: responseToSend,
+      executionResult: decryptedResponseBody || responseBody,
       status: response.status,
     };
   } catch (e) {
+    if (runController.signal.aborted) {
+      const reason = String(runController.signal.reason || 'Execution cancelled');
+      const executorCancel = executionId
+        ? await cancelExecutionOnCodespace({ codespaceUrl, token, executionId })
+        : null;
+      return {
+        success: false,
+        cancelled: true,
+        executionId,
+        executorCancel,
+        error: {
+          message: `Execution cancelled: ${reason}`
+        }
+      };
+    }
     return {
       success: false,
       error: {
         message: e instanceof Error ? e.message : 'Unknown error occurred'
       }
     };
+  } finally {
+    if (runTimer) clearTimeout(runTimer);
+    signal?.removeEventListener('abort', abortFromCaller);
   }
 };
 
@@ -614,8 +816,7 @@ export const fetchKeyNameAndResources = async ({ codespaceUrl, githubPatToken }:
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': githubPatToken,
-        'x-github-token': githubPatToken,
+        ...executorAuthHeaders(githubPatToken),
       },
       body: JSON.stringify({}),
     });
@@ -649,9 +850,7 @@ export const stopCodespace = async ({
   token: string;
 }): Promise<any | Error> => {
   try {
-    const octokit = new Octokit({
-      auth: token,
-    });
+    const octokit = getOctokit(token);
 
     const response = await octokit.rest.codespaces.stopForAuthenticatedUser({
       codespace_name: codespaceName,
@@ -683,7 +882,7 @@ export const stopCodespace = async ({
   }
 };
 
-export const deleteCodespace = async ({
+export const startCodespace = async ({
   codespaceName,
   token,
 }: {
@@ -691,9 +890,204 @@ export const deleteCodespace = async ({
   token: string;
 }): Promise<any | Error> => {
   try {
-    const octokit = new Octokit({
-      auth: token,
+    const octokit = getOctokit(token);
+
+    const response = await octokit.rest.codespaces.startForAuthenticatedUser({
+      codespace_name: codespaceName,
+    });
+
+    return {
+      success: true,
+      codespace: response.data,
+      message: `Codespace ${codespaceName} is starting`,
+    };
+  } catch (e) {
+    if (e && typeof e === 'object' && 'response' in e) {
+      const error = e as { response: { headers: any; status: number }; message: string };
+      return {
+        success: false,
+        error: {
+          message: error.message,
+          status: error.response.status,
+          headers: error.response.headers
+        }
+      };
+    }
+    return {
+      success: false,
+      error: {
+        message: e instanceof Error ? e.message : 'Unknown error occurred'
+      }
+    };
+  }
+};
+
+// Only a 2xx from the executor itself counts; the port forwarder answers 502-504 until it listens and
+// redirects to the GitHub sign-in page when the port is not reachable with this token
+export const checkExecutorHealth = async ({ codespaceUrl, token }: { codespaceUrl: string; token: string }): Promise<boolean> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 10000);
+  try {
+    const response = await fetch(`${codespaceUrl}/health`, {
+      method: 'GET',
+      headers: {
+        ...executorAuthHeaders(token),
+      },
+      redirect: 'manual',
+      signal: controller.signal,
     });
+    return response.ok;
+  } catch (e) {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// States a codespace passes through on its way to Available
+const STARTING_CODESPACE_STATES = ['Starting', 'Queued', 'Provisioning', 'Awaiting', 'Rebuilding', 'Updating', 'Exporting'];
+const STOPPED_CODESPACE_STATES = ['Shutdown', 'ShuttingDown'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Starts a stopped executor codespace and waits until it is Available and its port 3000
+ * executor answers. Picks `codespaceName` when given, otherwise the most recently used one.
+ * `found` is false when there was no stopped or starting codespace to bring up.
+ */
+export const startExecutorCodespace = async ({
+  token,
+  codespaceName,
+  onProgress,
+  timeoutMs = 300000,
+  pollIntervalMs = 5000,
+}: {
+  token: string;
+  codespaceName?: string;
+  onProgress?: (message: string) => void | Promise<void>;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}): Promise<any | Error> => {
+  const report = async (message: string) => {
+    console.error(`⏳ ${message}`);
+    try {
+      await onProgress?.(message);
+    } catch (e) {
+      // Progress reporting must never stop the start
+    }
+  };
+
+  try {
+    const allCodespaces = await listAllCodespacesForRepo({ token });
+    if (!allCodespaces.success) {
+      return { success: false, found: false, error: allCodespaces.error };
+    }
+
+    const startable = allCodespaces.codespaces
+      .filter((codespace: any) => [...STOPPED_CODESPACE_STATES, ...STARTING_CODESPACE_STATES].includes(codespace.state))
+      .filter((codespace: any) => !codespaceName || codespace.name === codespaceName)
+      .sort((a: any, b: any) => (b.last_used_at || '').localeCompare(a.last_used_at || ''));
+
+    if (startable.length === 0) {
+      return { success: false, found: false, error: { message: 'No stopped codespace-executor codespace to start' } };
+    }
+
+    let codespace = startable[0];
+    const deadline = Date.now() + timeoutMs;
+    const octokit = getOctokit(token);
+
+    if (codespace.state === 'Shutdown') {
+      await report(`Starting stopped codespace ${codespace.name}`);
+      const startResponse = await startCodespace({ codespaceName: codespace.name, token });
+      if (!startResponse.success) {
+        return {
+          success: false,
+          found: true,
+          error: { message: `Failed to start codespace ${codespace.name}: ${startResponse.error?.message || 'Unknown error'}` }
+        };
+      }
+      codespace = startResponse.codespace;
+    }
+
+    // ShuttingDown cannot be started until it has finished stopping, so it is polled like a start
+    let startRequested = codespace.state !== 'ShuttingDown';
+    while (codespace.state !== 'Available') {
+      if (Date.now() > deadline) {
+        return {
+          success: false,
+          found: true,
+          error: { message: `Codespace ${codespace.name} did not become Available within ${Math.round(timeoutMs / 1000)}s (state: ${codespace.state})` }
+        };
+      }
+      if (codespace.state === 'Shutdown' && !startRequested) {
+        await report(`Starting codespace ${codespace.name}`);
+        const startResponse = await startCodespace({ codespaceName: codespace.name, token });
+        if (!startResponse.success) {
+          return {
+            success: false,
+            found: true,
+            error: { message: `Failed to start codespace ${codespace.name}: ${startResponse.error?.message || 'Unknown error'}` }
+          };
+        }
+        startRequested = true;
+      } else if (![...STARTING_CODESPACE_STATES, 'ShuttingDown', 'Shutdown'].includes(codespace.state)) {
+        return {
+          success: false,
+          found: true,
+          error: { message: `Codespace ${codespace.name} cannot be started from state ${codespace.state}` }
+        };
+      }
+
+      await report(`Waiting for codespace ${codespace.name} to become Available (state: ${codespace.state})`);
+      await sleep(pollIntervalMs);
+      const current = await octokit.rest.codespaces.getForAuthenticatedUser({ codespace_name: codespace.name });
+      codespace = current.data;
+    }
+
+    const codespaceUrl = generateCodespacePortUrl(codespace, 3000);
+    if (codespaceUrl.startsWith('Error')) {
+      return { success: false, found: true, error: { message: codespaceUrl } };
+    }
+
+    await report(`Codespace ${codespace.name} is Available; waiting for the executor on port 3000`);
+    while (!(await checkExecutorHealth({ codespaceUrl, token }))) {
+      if (Date.now() > deadline) {
+        return {
+          success: false,
+          found: true,
+          error: { message: `Codespace ${codespace.name} is Available but its executor did not answer on port 3000 within ${Math.round(timeoutMs / 1000)}s` }
+        };
+      }
+      await sleep(pollIntervalMs);
+    }
+
+    await report(`Codespace ${codespace.name} is ready`);
+    return {
+      success: true,
+      found: true,
+      codespace,
+      message: `Codespace ${codespace.name} was started and its executor is ready`
+    };
+  } catch (e) {
+    return {
+      success: false,
+      found: true,
+      error: {
+        message: e instanceof Error ? e.message : 'Unknown error occurred'
+      }
+    };
+  }
+};
+
+export const deleteCodespace = async ({
+  codespaceName,
+  token,
+}: {
+  codespaceName: string;
+  token: string;
+}): Promise<any | Error> => {
+  try {
+    const octokit = getOctokit(token);
 
     const response = await octokit.rest.codespaces.deleteForAuthenticatedUser({
       codespace_name: codespaceName,
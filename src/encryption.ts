@@ -1,46 +1,224 @@
 import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import 'dotenv/config'
 
+/**
+ * Envelope format: v2:<keyId>:<iv>:<authTag>:<ciphertext> (hex encoded, AES-256-GCM).
+ * The version and key id are bound as additional authenticated data, so a payload
+ * cannot be relabelled to another key. Legacy iv:ciphertext payloads (AES-256-CBC
+ * with ENCRYPTION_KEY) are still accepted by decrypt().
+ *
+ * Keyring keys never leave this machine, so payloads for a remote executor are
+ * sealed with ENCRYPTION_KEY, the one key the executor can be given as well.
+ */
 
-
-const ALGORITHM = 'aes-256-cbc';
+const ALGORITHM = 'aes-256-gcm';
+const LEGACY_ALGORITHM = 'aes-256-cbc';
+const ENVELOPE_VERSION = 'v2';
 const ENCRYPTION_KEY = Buffer.from(process.env.ENCRYPTION_KEY || '', 'hex'); // Load from env
+const ENV_KEY_ID = 'env';
+const KEYRING_PATH = process.env.KEYRING_PATH || path.join(os.homedir(), '.keyboard-mcp', 'keyring.json');
+
+interface StoredKey {
+  key: string; // hex encoded 32 byte key
+  createdAt: string;
+}
+
+interface Keyring {
+  activeKeyId: string | null;
+  keys: Record<string, StoredKey>;
+}
+
+export interface EncryptionKeyInfo {
+  keyId: string;
+  createdAt: string | null;
+  active: boolean;
+  source: 'env' | 'keyring';
+}
+
+let keyring: Keyring | null = null;
+
+const hasEnvKey = (): boolean => ENCRYPTION_KEY.length === 32;
+
+const loadKeyring = (): Keyring => {
+  if (keyring) return keyring;
+
+  try {
+    keyring = JSON.parse(fs.readFileSync(KEYRING_PATH, 'utf8')) as Keyring;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read keyring:', error);
+      throw new Error(`Failed to read keyring at ${KEYRING_PATH}`);
+    }
+    keyring = { activeKeyId: null, keys: {} };
+  }
+  return keyring;
+};
+
+const saveKeyring = (ring: Keyring): void => {
+  fs.mkdirSync(path.dirname(KEYRING_PATH), { recursive: true, mode: 0o700 });
+  // Write then rename so a crash never leaves a truncated keyring behind
+  const tmpPath = `${KEYRING_PATH}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(ring, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, KEYRING_PATH);
+};
+
+const generateKeyId = (): string => `k${Date.now().toString(36)}${randomBytes(3).toString('hex')}`;
+
+const getKey = (keyId: string): Buffer => {
+  if (keyId === ENV_KEY_ID && hasEnvKey()) {
+    return ENCRYPTION_KEY;
+  }
+  const stored = loadKeyring().keys[keyId];
+  if (!stored) {
+    throw new Error(`Unknown encryption key id '${keyId}'`);
+  }
+  return Buffer.from(stored.key, 'hex');
+};
+
+const isKnownKeyId = (keyId: string): boolean =>
+  (keyId === ENV_KEY_ID && hasEnvKey()) || Boolean(loadKeyring().keys[keyId]);
+
+// The key new payloads would use, or null while none exists yet; never creates one
+const findActiveKeyId = (): string | null => {
+  const ring = loadKeyring();
+  const configuredKeyId = process.env.ENCRYPTION_KEY_ID;
+
+  if (configuredKeyId) {
+    if (!isKnownKeyId(configuredKeyId)) {
+      throw new Error(`ENCRYPTION_KEY_ID '${configuredKeyId}' is neither in the keyring at ${KEYRING_PATH} nor the ENCRYPTION_KEY from the environment`);
+    }
+    return configuredKeyId;
+  }
+  if (ring.activeKeyId) return ring.activeKeyId;
+  if (hasEnvKey()) return ENV_KEY_ID;
+  return null;
+};
+
+export function getActiveKeyId(): string {
+  // No key anywhere yet: create the first local key
+  return findActiveKeyId() ?? rotateEncryptionKey().keyId;
+}
+
+// Key id for payloads a remote executor must decrypt; null when ENCRYPTION_KEY is not set
+export const getExecutorKeyId = (): string | null => hasEnvKey() ? ENV_KEY_ID : null;
 
-export function encrypt(text: string): string {
+/**
+ * Checks the key settings at startup. Returns a message describing the first
+ * problem, or null when encryption is usable as configured.
+ */
+export function validateEncryptionConfig({ localEncryption }: { localEncryption: boolean }): string | null {
   try {
-    if (!ENCRYPTION_KEY || ENCRYPTION_KEY.length !== 32) {
+    findActiveKeyId();
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid ENCRYPTION_KEY_ID';
+  }
+  if (localEncryption && !hasEnvKey()) {
+    return 'LOCAL_ENCRYPTION=true needs ENCRYPTION_KEY (64 hex characters) set here and on the executor; keyring keys only exist on this machine, so the executor could not decrypt payloads';
+  }
+  return null;
+}
+
+/**
+ * Generates a new key, makes it active and keeps older keys for decryption
+ */
+export function rotateEncryptionKey(): { keyId: string; createdAt: string; previousKeyId: string | null } {
+  const ring = loadKeyring();
+  const keyId = generateKeyId();
+  const createdAt = new Date().toISOString();
+  const previousKeyId = ring.activeKeyId || (hasEnvKey() ? ENV_KEY_ID : null);
+
+  const nextRing: Keyring = {
+    activeKeyId: keyId,
+    keys: {
+      ...ring.keys,
+      [keyId]: { key: randomBytes(32).toString('hex'), createdAt }
+    }
+  };
+  saveKeyring(nextRing);
+  keyring = nextRing;
+
+  return { keyId, createdAt, previousKeyId };
+}
+
+export function listEncryptionKeys(): EncryptionKeyInfo[] {
+  const activeKeyId = findActiveKeyId();
+  const keys: EncryptionKeyInfo[] = Object.entries(loadKeyring().keys).map(([keyId, stored]) => ({
+    keyId,
+    createdAt: stored.createdAt,
+    active: keyId === activeKeyId,
+    source: 'keyring'
+  }));
+
+  if (hasEnvKey()) {
+    keys.unshift({ keyId: ENV_KEY_ID, createdAt: null, active: activeKeyId === ENV_KEY_ID, source: 'env' });
+  }
+  return keys;
+}
+
+export function encrypt(text: string, keyIdOverride?: string): string {
+  try {
+    const keyId = keyIdOverride ?? getActiveKeyId();
+    const key = getKey(keyId);
+    if (key.length !== 32) {
       throw new Error('Encryption key must be 32 bytes');
     }
-    
-    const iv = randomBytes(16);
-    const cipher = createCipheriv(ALGORITHM, ENCRYPTION_KEY, iv);
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(`${ENVELOPE_VERSION}:${keyId}`, 'utf8'));
     let encrypted = cipher.update(text, 'utf8', 'hex');
     encrypted += cipher.final('hex');
-    const ivString = iv.toString('hex');
-    return ivString + ':' + encrypted;
+    const authTag = cipher.getAuthTag().toString('hex');
+
+    return [ENVELOPE_VERSION, keyId, iv.toString('hex'), authTag, encrypted].join(':');
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Failed to encrypt data');
   }
 }
 
+function decryptLegacy(ivHex: string, encrypted: string): string {
+  const key = hasEnvKey() ? ENCRYPTION_KEY : getKey(getActiveKeyId());
+  const iv = Buffer.from(ivHex, 'hex');
+  const decipher = createDecipheriv(LEGACY_ALGORITHM, key, iv);
+
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
+
 export function decrypt(encryptedText: string): string {
   try {
-    const [ivHex, encrypted] = encryptedText.split(':');
-    
-    if (!ivHex || !encrypted) {
+    const parts = encryptedText.split(':');
+
+    if (parts.length === 2) {
+      const [ivHex, encrypted] = parts;
+      if (!ivHex || !encrypted) {
+        throw new Error('Invalid encrypted data format');
+      }
+      return decryptLegacy(ivHex, encrypted);
+    }
+
+    const [version, keyId, ivHex, authTagHex, encrypted] = parts;
+    // GCM accepts truncated tags, so insist on the full 16 bytes
+    if (parts.length !== 5 || version !== ENVELOPE_VERSION || !keyId || !ivHex || authTagHex?.length !== 32) {
       throw new Error('Invalid encrypted data format');
     }
-    
-    const iv = Buffer.from(ivHex, 'hex');
-    const decipher = createDecipheriv(ALGORITHM, ENCRYPTION_KEY, iv);
-    
+
+    const decipher = createDecipheriv(ALGORITHM, getKey(keyId), Buffer.from(ivHex, 'hex'));
+    decipher.setAAD(Buffer.from(`${version}:${keyId}`, 'utf8'));
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
     let decrypted = decipher.update(encrypted, 'hex', 'utf8');
     decrypted += decipher.final('utf8');
-    
+
     return decrypted;
   } catch (error) {
     console.error('Decryption error:', error);
     throw new Error('Failed to decrypt data');
   }
-} 
\ No newline at end of file
+}
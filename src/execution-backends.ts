@@ -0,0 +1,182 @@
+import { listActiveCodespacesForRepo, generateCodespacePortUrl, startExecutorCodespace } from './codespaces.js';
+import 'dotenv/config'
+
+/**
+ * Execution backends resolve where approved code runs. Every backend hands back
+ * the base URL of a codespace-executor-compatible HTTP server, so evaluation,
+ * resource discovery and execution work the same regardless of provider.
+ */
+
+export type ExecutionBackendId = 'codespace' | 'local';
+
+export const EXECUTION_BACKEND_IDS = ['codespace', 'local'] as const;
+
+export interface ExecutionTarget {
+  backend: ExecutionBackendId;
+  name: string; // Codespace name or a label for the local executor
+  url: string; // Base URL of the executor server (no trailing slash)
+  token: string; // Sent as Authorization / x-github-token to the executor; empty sends neither
+  web_url?: string;
+  state?: string;
+  created_at?: string;
+  last_used_at?: string;
+}
+
+export interface ResolveTargetResult {
+  success: boolean;
+  target?: ExecutionTarget;
+  candidates?: ExecutionTarget[];
+  message?: string;
+  error?: {
+    message: string;
+  };
+}
+
+export interface ResolveTargetOptions {
+  name?: string; // Pick this target instead of the backend's default one
+  onProgress?: (message: string) => void | Promise<void>; // Reports slow steps such as starting a codespace
+}
+
+export interface ExecutionBackend {
+  id: ExecutionBackendId;
+  description: string;
+  resolveTarget(options?: ResolveTargetOptions): Promise<ResolveTargetResult>;
+}
+
+const toCodespaceTarget = (cs: any, token: string): ExecutionTarget => ({
+  backend: 'codespace',
+  name: cs.name,
+  url: generateCodespacePortUrl(cs, 3000),
+  token,
+  web_url: cs.web_url,
+  state: cs.state,
+  created_at: cs.created_at,
+  last_used_at: cs.last_used_at
+});
+
+export const createCodespaceBackend = ({ token, autoStart = true }: { token: string; autoStart?: boolean }): ExecutionBackend => ({
+  id: 'codespace',
+  description: 'GitHub Codespace running the codespace-executor repository (port 3000)',
+  resolveTarget: async ({ name, onProgress }: ResolveTargetOptions = {}) => {
+    try {
+      const codespacesResponse = await listActiveCodespacesForRepo({ token });
+      const candidates: ExecutionTarget[] = codespacesResponse.success
+        ? codespacesResponse.codespaces.map((cs: any) => toCodespaceTarget(cs, token))
+        : [];
+
+      // Use the requested codespace, otherwise the first active one
+      let target = name ? candidates.find(candidate => candidate.name === name) : candidates[0];
+
+      // Bring a stopped executor codespace back before telling the agent to create a new one
+      if (!target && autoStart) {
+        const started = await startExecutorCodespace({ token, codespaceName: name, onProgress });
+        if (started.success) {
+          target = toCodespaceTarget(started.codespace, token);
+          candidates.push(target);
+        } else if (started.found) {
+          return {
+            success: false,
+            candidates,
+            error: {
+              message: `Failed to start a stopped codespace: ${started.error?.message || 'Unknown error'}`
+            }
+          };
+        }
+      }
+
+      if (!codespacesResponse.success && candidates.length === 0) {
+        return {
+          success: false,
+          error: {
+            message: `Failed to fetch active codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`
+          }
+        };
+      }
+
+      if (candidates.length === 0) {
+        return {
+          success: false,
+          candidates,
+          error: {
+            message: "No active codespaces found. Use 'create-github-codespace' tool to create one.  After that make sure to use the fetch-environment-and-resources tool to get the environment variables and resources available to you before you write and execute the code"
+          }
+        };
+      }
+
+      if (!target) {
+        return {
+          success: false,
+          candidates,
+          error: {
+            message: `Codespace '${name}' is not an active codespace-executor codespace. Active codespaces: ${candidates.map(candidate => candidate.name).join(', ')}`
+          }
+        };
+      }
+      if (target.url.startsWith('Error')) {
+        return {
+          success: false,
+          candidates,
+          error: {
+            message: `Error generating codespace URL: ${target.url}`
+          }
+        };
+      }
+
+      return {
+        success: true,
+        target,
+        candidates,
+        message: `${candidates.length} active codespace(s) available for code execution`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: `Error checking codespaces: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }
+      };
+    }
+  }
+});
+
+export const createLocalExecutorBackend = ({ url, token }: { url: string; token: string }): ExecutionBackend => ({
+  id: 'local',
+  description: `Local codespace-executor-compatible server at ${url}`,
+  resolveTarget: async ({ name }: ResolveTargetOptions = {}) => {
+    if (!url) {
+      return {
+        success: false,
+        error: {
+          message: 'LOCAL_EXECUTOR_URL is not configured. Set it to the base URL of your local executor, e.g. http://127.0.0.1:3000'
+        }
+      };
+    }
+
+    const target: ExecutionTarget = {
+      backend: 'local',
+      name: 'local-executor',
+      url: url.replace(/\/+$/, ''),
+      token
+    };
+
+    if (name && name !== target.name) {
+      return {
+        success: false,
+        candidates: [target],
+        error: {
+          message: `The local backend only has '${target.name}' (got '${name}')`
+        }
+      };
+    }
+
+    return {
+      success: true,
+      target,
+      candidates: [target],
+      message: `Local executor configured at ${target.url}`
+    };
+  }
+});
+
+export const isExecutionBackendId = (value: string): value is ExecutionBackendId =>
+  (EXECUTION_BACKEND_IDS as readonly string[]).includes(value);
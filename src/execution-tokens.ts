@@ -0,0 +1,164 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Planning and execution tokens.
+ *
+ * Tokens come from the CSPRNG and expire. Once code is approved, its execution token
+ * is bound to a grant: the SHA-256 of the approved code, the backend and codespace it
+ * was evaluated against, and the decision that approved it, sealed with an HMAC under
+ * a local key. The key lives in memory, or in the encrypted state store when grants
+ * must survive a restart. `execute` re-derives the seal before running, so the token
+ * cannot be used for different code, another codespace, or a decision that was
+ * altered after the fact.
+ */
+
+export type TokenErrorCode =
+  | 'TOKEN_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_ALREADY_USED'
+  | 'TOKEN_NOT_APPROVED'
+  | 'CODE_HASH_MISMATCH'
+  | 'CODESPACE_MISMATCH'
+  | 'DECISION_MISMATCH'
+  | 'PLAN_STEP_INVALID'
+  | 'PLAN_STEP_UNAVAILABLE'
+  | 'BATCH_ORDER'
+  | 'BATCH_DEPENDENCY_FAILED';
+
+export type TokenCheck = { valid: true } | { valid: false; code: TokenErrorCode; message: string };
+
+export interface ApprovalDecision {
+  status: 'approved';
+  decidedBy: 'approver' | 'policy';
+  approvalId?: string; // Id of the approval request the approver answered
+  decidedAt: string;
+}
+
+export interface ExecutionGrant {
+  codeSha256: string;
+  backend: string;
+  codespaceName: string;
+  decision: ApprovalDecision;
+  issuedAt: string;
+  expiresAt: string;
+  seal: string;
+}
+
+let sealKey = randomBytes(32);
+
+export const exportSealKey = (): string => sealKey.toString('hex');
+
+export const importSealKey = (hex: string): void => {
+  const key = Buffer.from(hex, 'hex');
+  if (key.length !== 32) throw new Error('Seal key must be 32 bytes');
+  sealKey = key;
+};
+
+export const generateToken = (prefix: string = ''): string => `${prefix}${randomBytes(24).toString('base64url')}`;
+
+export const hashCode = (code: string): string => createHash('sha256').update(code, 'utf8').digest('hex');
+
+export const expiresAfter = (ttlSeconds: number, from: number = Date.now()): string => new Date(from + ttlSeconds * 1000).toISOString();
+
+export const isExpired = (expiresAt: string | undefined, now: number = Date.now()): boolean =>
+  !expiresAt || Date.parse(expiresAt) <= now;
+
+const computeSeal = (token: string, grant: Omit<ExecutionGrant, 'seal'>): string =>
+  createHmac('sha256', sealKey)
+    .update(JSON.stringify([
+      token,
+      grant.codeSha256,
+      grant.backend,
+      grant.codespaceName,
+      grant.decision.status,
+      grant.decision.decidedBy,
+      grant.decision.approvalId ?? null,
+      grant.decision.decidedAt,
+      grant.issuedAt,
+      grant.expiresAt
+    ]))
+    .digest('hex');
+
+export const createExecutionGrant = ({
+  token,
+  code,
+  backend,
+  codespaceName,
+  decision,
+  ttlSeconds
+}: {
+  token: string;
+  code: string;
+  backend: string;
+  codespaceName: string;
+  decision: Omit<ApprovalDecision, 'decidedAt'>;
+  ttlSeconds: number;
+}): ExecutionGrant => {
+  const now = Date.now();
+  const unsealed = {
+    codeSha256: hashCode(code),
+    backend,
+    codespaceName,
+    decision: { ...decision, decidedAt: new Date(now).toISOString() },
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: expiresAfter(ttlSeconds, now)
+  };
+  return { ...unsealed, seal: computeSeal(token, unsealed) };
+};
+
+/**
+ * Checks a grant against the code about to run: seal, expiry and code hash. Runs
+ * before anything with side effects (such as starting a codespace), so a stale or
+ * altered approval never wakes anything up.
+ */
+export const verifyExecutionGrant = ({
+  token,
+  grant,
+  code
+}: {
+  token: string;
+  grant: ExecutionGrant | undefined;
+  code: string | undefined;
+}): TokenCheck => {
+  if (!grant) {
+    return { valid: false, code: 'TOKEN_NOT_APPROVED', message: 'No approved code is bound to this execution token' };
+  }
+
+  const { seal, ...unsealed } = grant;
+  const expected = Buffer.from(computeSeal(token, unsealed), 'hex');
+  const actual = Buffer.from(seal, 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, code: 'DECISION_MISMATCH', message: 'The approval bound to this execution token has been altered' };
+  }
+  if (isExpired(grant.expiresAt)) {
+    return { valid: false, code: 'TOKEN_EXPIRED', message: `The approval expired at ${grant.expiresAt}` };
+  }
+  if (code === undefined || hashCode(code) !== grant.codeSha256) {
+    return { valid: false, code: 'CODE_HASH_MISMATCH', message: 'The stored code no longer matches the SHA-256 of the approved code' };
+  }
+  return { valid: true };
+};
+
+/**
+ * Checks where execution would happen now against where the grant allows. A
+ * re-resolved target that differs from the evaluated one is refused rather than
+ * silently used.
+ */
+export const verifyExecutionTarget = ({
+  grant,
+  backend,
+  codespaceName
+}: {
+  grant: ExecutionGrant;
+  backend: string;
+  codespaceName: string;
+}): TokenCheck => {
+  if (backend !== grant.backend || codespaceName !== grant.codespaceName) {
+    return {
+      valid: false,
+      code: 'CODESPACE_MISMATCH',
+      message: `The code was approved for ${grant.backend} '${grant.codespaceName}' but would run on ${backend} '${codespaceName}'`
+    };
+  }
+  return { valid: true };
+};
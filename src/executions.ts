@@ -0,0 +1,139 @@
+import { randomBytes } from 'crypto';
+import { ExecutionBackendId } from './execution-backends.js';
+
+/**
+ * Registry of executions started by `execute`. Each run is tracked under an execution
+ * id from start to finish, so it can be cancelled while running and, for async jobs,
+ * polled for its status and approved result afterwards. Cancelling aborts the run's
+ * controller, which stops the request to the executor and asks it to kill the process.
+ */
+
+export type ExecutionState = 'running' | 'awaiting_approval' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ExecutionJob {
+  executionId: string;
+  executionToken: string;
+  sessionId: string; // MCP session that started it; other sessions cannot see or cancel it
+  mode: 'sync' | 'async';
+  state: ExecutionState;
+  backend: ExecutionBackendId;
+  target: string; // Codespace name or local executor label
+  timeoutSeconds: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  result?: any; // What the agent may see once the approver released it
+  error?: string;
+}
+
+export type ExecutionJobSummary = Omit<ExecutionJob, 'result'> & { hasResult: boolean };
+
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_FINISHED_JOBS = 200;
+
+const jobs = new Map<string, ExecutionJob>();
+const controllers = new Map<string, AbortController>();
+
+// Set by the durable state store so every change is written through
+let onChange: (() => void) | null = null;
+const changed = (): void => onChange?.();
+
+export const setExecutionsChangeListener = (listener: (() => void) | null): void => {
+  onChange = listener;
+};
+
+const isFinished = (job: ExecutionJob): boolean =>
+  job.state === 'succeeded' || job.state === 'failed' || job.state === 'cancelled';
+
+// Drops finished jobs past retention, oldest first, so the registry cannot grow unbounded
+const pruneFinishedJobs = (): void => {
+  const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+  const finished = [...jobs.values()].filter(isFinished).sort((a, b) => a.finishedAt!.localeCompare(b.finishedAt!));
+
+  finished.forEach((job, index) => {
+    if (Date.parse(job.finishedAt!) < cutoff || index < finished.length - MAX_FINISHED_JOBS) {
+      jobs.delete(job.executionId);
+    }
+  });
+};
+
+export const createExecutionId = (): string => `exec-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+
+export const registerExecution = (
+  job: Pick<ExecutionJob, 'executionId' | 'executionToken' | 'sessionId' | 'mode' | 'backend' | 'target' | 'timeoutSeconds'>,
+  controller: AbortController
+): ExecutionJob => {
+  pruneFinishedJobs();
+  const now = new Date().toISOString();
+  const registered: ExecutionJob = { ...job, state: 'running', createdAt: now, updatedAt: now };
+  jobs.set(job.executionId, registered);
+  controllers.set(job.executionId, controller);
+  changed();
+  return registered;
+};
+
+// The executor has answered; the result now waits for the approver
+export const markAwaitingApproval = (executionId: string): void => {
+  const job = jobs.get(executionId);
+  if (job && job.state === 'running') {
+    job.state = 'awaiting_approval';
+    job.updatedAt = new Date().toISOString();
+    changed();
+  }
+};
+
+export const completeExecution = (
+  executionId: string,
+  outcome: { state: 'succeeded' | 'failed' | 'cancelled'; result?: any; error?: string }
+): void => {
+  const job = jobs.get(executionId);
+  controllers.delete(executionId);
+  if (!job) return;
+
+  const now = new Date().toISOString();
+  Object.assign(job, outcome, { updatedAt: now, finishedAt: now });
+  changed();
+};
+
+// Jobs are only visible to the session that started them
+export const getExecution = (executionId: string, sessionId?: string): ExecutionJob | undefined => {
+  const job = jobs.get(executionId);
+  return job && (sessionId === undefined || job.sessionId === sessionId) ? job : undefined;
+};
+
+export const summarizeExecution = ({ result, ...job }: ExecutionJob): ExecutionJobSummary => ({
+  ...job,
+  hasResult: result !== undefined
+});
+
+export const listRunningExecutions = (sessionId?: string): ExecutionJobSummary[] =>
+  [...jobs.values()]
+    .filter(job => !isFinished(job) && (sessionId === undefined || job.sessionId === sessionId))
+    .map(summarizeExecution);
+
+// Only the executor run can be cancelled; returns false once it has finished or was already cancelled
+export const cancelExecution = (executionId: string, reason: string): boolean => {
+  const controller = controllers.get(executionId);
+  if (!controller || controller.signal.aborted || jobs.get(executionId)?.state !== 'running') {
+    return false;
+  }
+  controller.abort(reason);
+  return true;
+};
+
+export const exportExecutions = (): ExecutionJob[] => {
+  pruneFinishedJobs();
+  return [...jobs.values()];
+};
+
+// The runs behind unfinished jobs died with the previous process, so they are restored as failed
+export const importExecutions = (restored: ExecutionJob[]): void => {
+  const now = new Date().toISOString();
+  for (const job of restored) {
+    if (jobs.has(job.executionId)) continue;
+    jobs.set(job.executionId, isFinished(job)
+      ? job
+      : { ...job, state: 'failed', error: `The MCP server restarted while this execution was ${job.state === 'running' ? 'running' : 'awaiting approval'}`, updatedAt: now, finishedAt: now });
+  }
+  pruneFinishedJobs();
+};
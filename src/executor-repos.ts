@@ -0,0 +1,264 @@
+import { getOctokit, GitHubClient } from "./github-client.js";
+import { createHash } from 'crypto';
+import 'dotenv/config'
+
+/**
+ * Index of codespace-executor repositories and the user's codespaces.
+ *
+ * Discovery walks every page of the user's and their organizations' repositories and
+ * probes codespace access once per repository. The result is cached for
+ * EXECUTOR_REPO_CACHE_TTL_SECONDS; after that, pages are revalidated with ETag
+ * conditional requests, which cost nothing against the rate limit when unchanged.
+ * Setting EXECUTOR_REPOS ("owner/repo,owner/other-repo") skips discovery entirely.
+ */
+
+export interface ExecutorRepository {
+  name: string;
+  full_name: string;
+  owner: {
+    login: string;
+    type?: string;
+  };
+  private?: boolean;
+  origin: 'user' | 'org' | 'configured';
+  codespaceAccess: boolean;
+  error?: string;
+}
+
+export interface GitHubRequestStats {
+  requests: number;
+  notModified: number; // Answered 304 from the ETag cache
+}
+
+export interface ExecutorRepoIndex {
+  source: 'configured' | 'discovered';
+  repositories: ExecutorRepository[]; // Repositories the user can create codespaces for
+  allFoundRepos: ExecutorRepository[];
+  fetchedAt: string;
+  expiresAt: string;
+  stats: GitHubRequestStats;
+}
+
+const PER_PAGE = 100;
+const MAX_CONCURRENT_REQUESTS = 4; // Organizations listed and repositories probed at once
+const MAX_CONDITIONAL_CACHE_ENTRIES = 500;
+const cacheTtlMs = Number(process.env.EXECUTOR_REPO_CACHE_TTL_SECONDS || 600) * 1000;
+
+const conditionalCache = new Map<string, { etag: string; data: any }>();
+const repoIndexes = new Map<string, ExecutorRepoIndex>();
+const discoveries = new Map<string, Promise<ExecutorRepoIndex>>(); // In flight, shared by concurrent callers
+const accessProbes = new Map<string, { codespaceAccess: boolean; error?: string }>();
+
+// Caches are keyed by a hash of the token, never the token itself
+const tokenKey = (token: string): string => createHash('sha256').update(token).digest('hex').slice(0, 16);
+
+// Least recently used entries go first once the cache is full
+const rememberResponse = (key: string, entry: { etag: string; data: any }): void => {
+  conditionalCache.delete(key);
+  conditionalCache.set(key, entry);
+  while (conditionalCache.size > MAX_CONDITIONAL_CACHE_ENTRIES) {
+    conditionalCache.delete(conditionalCache.keys().next().value!);
+  }
+};
+
+// Like Promise.all over items.map(fn), with at most `limit` calls in flight
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+export const getConfiguredExecutorRepos = (): ExecutorRepository[] =>
+  (process.env.EXECUTOR_REPOS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(fullName => {
+      const [owner, name] = fullName.split('/');
+      return { name, full_name: fullName, owner: { login: owner }, origin: 'configured' as const, codespaceAccess: true };
+    })
+    .filter(repo => repo.owner.login && repo.name);
+
+// GET that sends If-None-Match and serves the cached body on 304
+export const conditionalGet = async (
+  octokit: GitHubClient,
+  token: string,
+  route: string,
+  params: Record<string, any>,
+  stats: GitHubRequestStats
+): Promise<any> => {
+  const key = `${tokenKey(token)} ${route} ${JSON.stringify(params)}`;
+  const cached = conditionalCache.get(key);
+  stats.requests++;
+
+  try {
+    const response = await octokit.request(route, {
+      ...params,
+      headers: cached ? { 'if-none-match': cached.etag } : {}
+    });
+    const etag = response.headers.etag;
+    if (etag) {
+      rememberResponse(key, { etag, data: response.data });
+    }
+    return response.data;
+  } catch (error) {
+    if ((error as { status?: number }).status === 304 && cached) {
+      rememberResponse(key, cached);
+      stats.notModified++;
+      return cached.data;
+    }
+    throw error;
+  }
+};
+
+// Follows pages until a short one; `pick` extracts the items when the body wraps them
+export const conditionalPaginate = async (
+  octokit: GitHubClient,
+  token: string,
+  route: string,
+  params: Record<string, any>,
+  stats: GitHubRequestStats,
+  pick: (data: any) => any[] = data => data
+): Promise<any[]> => {
+  const items: any[] = [];
+  for (let page = 1; ; page++) {
+    const pageItems = pick(await conditionalGet(octokit, token, route, { ...params, per_page: PER_PAGE, page }, stats));
+    items.push(...pageItems);
+    if (pageItems.length < PER_PAGE) break;
+  }
+  return items;
+};
+
+const probeCodespaceAccess = async (octokit: GitHubClient, token: string, repo: any, stats: GitHubRequestStats) => {
+  const key = `${tokenKey(token)} ${repo.full_name}`;
+  const known = accessProbes.get(key);
+  if (known) return known;
+
+  let result: { codespaceAccess: boolean; error?: string };
+  try {
+    // Listing machines only succeeds when the user can create codespaces for the repository
+    await conditionalGet(octokit, token, 'GET /repos/{owner}/{repo}/codespaces/machines', { owner: repo.owner.login, repo: repo.name }, stats);
+    result = { codespaceAccess: true };
+  } catch (error) {
+    result = { codespaceAccess: false, error: error instanceof Error ? error.message : 'Access denied' };
+    // Only a definite refusal is remembered; rate limits and outages are probed again next time
+    const { status } = error as { status?: number };
+    if (status !== 403 && status !== 404) return result;
+  }
+  accessProbes.set(key, result);
+  return result;
+};
+
+const discoverExecutorRepos = async (token: string, stats: GitHubRequestStats): Promise<ExecutorRepository[]> => {
+  const octokit = getOctokit(token);
+  const isExecutorRepo = (repo: any) => repo.name.toLowerCase().includes('codespace-executor');
+
+  const userRepos = (await conditionalPaginate(octokit, token, 'GET /user/repos', { sort: 'updated', direction: 'desc' }, stats))
+    .filter(isExecutorRepo)
+    .map(repo => ({ ...repo, origin: 'user' as const }));
+
+  let orgRepos: any[] = [];
+  try {
+    const orgs = await conditionalPaginate(octokit, token, 'GET /user/orgs', {}, stats);
+    const perOrg = await mapWithConcurrency(orgs, MAX_CONCURRENT_REQUESTS, async (org: any) => {
+      try {
+        return (await conditionalPaginate(octokit, token, 'GET /orgs/{org}/repos', { org: org.login }, stats))
+          .filter(isExecutorRepo)
+          .map(repo => ({ ...repo, origin: 'org' as const }));
+      } catch (orgError) {
+        console.warn(`Could not fetch repositories for organization ${org.login}:`, orgError);
+        return [];
+      }
+    });
+    orgRepos = perOrg.flat();
+  } catch (orgError) {
+    console.warn('Could not fetch organization repositories:', orgError);
+    // Continue without org repos if there's an error
+  }
+
+  // A repository the user owns may also be listed under an organization
+  const unique = new Map<string, any>();
+  for (const repo of [...userRepos, ...orgRepos]) {
+    const key = repo.full_name.toLowerCase();
+    if (!unique.has(key)) unique.set(key, repo);
+  }
+
+  return mapWithConcurrency([...unique.values()], MAX_CONCURRENT_REQUESTS, async (repo): Promise<ExecutorRepository> => ({
+    name: repo.name,
+    full_name: repo.full_name,
+    owner: { login: repo.owner.login, type: repo.owner.type },
+    private: repo.private,
+    origin: repo.origin,
+    ...(await probeCodespaceAccess(octokit, token, repo, stats))
+  }));
+};
+
+export const getExecutorRepoIndex = async (token: string, { forceRefresh = false }: { forceRefresh?: boolean } = {}): Promise<ExecutorRepoIndex> => {
+  const configured = getConfiguredExecutorRepos();
+  const now = Date.now();
+
+  if (configured.length > 0) {
+    return {
+      source: 'configured',
+      repositories: configured,
+      allFoundRepos: configured,
+      fetchedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + cacheTtlMs).toISOString(),
+      stats: { requests: 0, notModified: 0 }
+    };
+  }
+
+  const key = tokenKey(token);
+  const cached = repoIndexes.get(key);
+  if (cached && !forceRefresh && Date.parse(cached.expiresAt) > now) {
+    return cached;
+  }
+
+  const inFlight = discoveries.get(key);
+  if (inFlight && !forceRefresh) {
+    return inFlight;
+  }
+
+  if (forceRefresh) {
+    // Access can change without the repository list changing
+    for (const probeKey of accessProbes.keys()) {
+      if (probeKey.startsWith(`${key} `)) accessProbes.delete(probeKey);
+    }
+  }
+
+  const discovery = (async (): Promise<ExecutorRepoIndex> => {
+    const stats: GitHubRequestStats = { requests: 0, notModified: 0 };
+    const allFoundRepos = await discoverExecutorRepos(token, stats);
+    const index: ExecutorRepoIndex = {
+      source: 'discovered',
+      repositories: allFoundRepos.filter(repo => repo.codespaceAccess),
+      allFoundRepos,
+      fetchedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + cacheTtlMs).toISOString(),
+      stats
+    };
+    repoIndexes.set(key, index);
+    return index;
+  })();
+
+  discoveries.set(key, discovery);
+  try {
+    return await discovery;
+  } finally {
+    // A forced refresh may have replaced this discovery in the meantime
+    if (discoveries.get(key) === discovery) discoveries.delete(key);
+  }
+};
+
+// All of the user's codespaces, every page, revalidated with ETags
+export const listUserCodespaces = async (token: string): Promise<any[]> => {
+  const octokit = getOctokit(token);
+  return conditionalPaginate(octokit, token, 'GET /user/codespaces', {}, { requests: 0, notModified: 0 }, data => data.codespaces);
+};
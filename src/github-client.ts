@@ -0,0 +1,105 @@
+import { Octokit } from "@octokit/rest";
+import { throttling } from "@octokit/plugin-throttling";
+import { retry } from "@octokit/plugin-retry";
+import { createHash } from 'crypto';
+import 'dotenv/config'
+
+/**
+ * Shared GitHub client. One Octokit per token, with the throttling plugin waiting out
+ * primary (x-ratelimit-reset) and secondary rate limits, and the retry plugin retrying
+ * transient 5xx failures. Rate-limit headers from every response are remembered so
+ * `github-rate-limit-status` can report them without spending quota.
+ */
+
+const GitHubClient = Octokit.plugin(throttling, retry);
+export type GitHubClient = InstanceType<typeof GitHubClient>;
+
+const MAX_RATE_LIMIT_RETRIES = 2;
+const MAX_RATE_LIMIT_WAIT_SECONDS = Number(process.env.GITHUB_MAX_RATE_LIMIT_WAIT_SECONDS || 60);
+
+export interface RateLimitSnapshot {
+  limit: number;
+  remaining: number;
+  used: number;
+  resource: string;
+  resetAt: string;
+  observedAt: string;
+}
+
+export interface RateLimitEvent {
+  kind: 'primary' | 'secondary';
+  method: string;
+  url: string;
+  retryAfterSeconds: number;
+  retried: boolean;
+  at: string;
+}
+
+const clients = new Map<string, GitHubClient>();
+const lastSeenLimits = new Map<string, RateLimitSnapshot>(); // By rate-limit resource (core, search, ...)
+const recentEvents: RateLimitEvent[] = [];
+
+const recordEvent = (event: RateLimitEvent) => {
+  recentEvents.push(event);
+  if (recentEvents.length > 20) recentEvents.shift();
+};
+
+const rememberRateLimit = (headers: Record<string, any>) => {
+  if (headers['x-ratelimit-limit'] === undefined) return;
+  const resource = String(headers['x-ratelimit-resource'] || 'core');
+  lastSeenLimits.set(resource, {
+    limit: Number(headers['x-ratelimit-limit']),
+    remaining: Number(headers['x-ratelimit-remaining']),
+    used: Number(headers['x-ratelimit-used']),
+    resource,
+    resetAt: new Date(Number(headers['x-ratelimit-reset']) * 1000).toISOString(),
+    observedAt: new Date().toISOString()
+  });
+};
+
+// Waits and retries a limited number of times; long waits fail fast so the agent can back off instead
+const handleRateLimit = (kind: RateLimitEvent['kind']) =>
+  (retryAfter: number, options: any, _octokit: any, retryCount: number): boolean => {
+    const retried = retryCount < MAX_RATE_LIMIT_RETRIES && retryAfter <= MAX_RATE_LIMIT_WAIT_SECONDS;
+    recordEvent({
+      kind,
+      method: options.method,
+      url: options.url,
+      retryAfterSeconds: retryAfter,
+      retried,
+      at: new Date().toISOString()
+    });
+    console.warn(`GitHub ${kind} rate limit hit for ${options.method} ${options.url}; ${retried ? `retrying in ${retryAfter}s` : 'giving up'}`);
+    return retried;
+  };
+
+export const getOctokit = (token: string): GitHubClient => {
+  const key = createHash('sha256').update(token).digest('hex');
+  let client = clients.get(key);
+  if (client) return client;
+
+  client = new GitHubClient({
+    auth: token,
+    throttle: {
+      onRateLimit: handleRateLimit('primary'),
+      onSecondaryRateLimit: handleRateLimit('secondary'),
+    },
+    retry: {
+      retries: 3,
+    },
+  });
+
+  client.hook.after('request', (response) => rememberRateLimit(response.headers));
+  client.hook.error('request', (error: any) => {
+    if (error?.response?.headers) rememberRateLimit(error.response.headers);
+    throw error;
+  });
+
+  clients.set(key, client);
+  return client;
+};
+
+export const getObservedRateLimits = (): { lastSeen: RateLimitSnapshot[]; recentEvents: RateLimitEvent[] } => ({
+  lastSeen: [...lastSeenLimits.values()],
+  recentEvents: [...recentEvents]
+});
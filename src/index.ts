@@ -13,20 +13,65 @@ import {
   deleteScriptTemplate, 
   searchScriptTemplates, 
   interpolateScript,
+  listScriptTemplateVersions,
+  getScriptTemplateVersion,
+  diffScriptTemplateVersions,
+  rollbackScriptTemplate,
+  computeTemplateHash,
   SaveScriptSchema,
   GetScriptSchema,
   UpdateScriptSchema,
   DeleteScriptSchema,
   ListScriptsSchema,
   SearchScriptsSchema,
-  InterpolateScriptSchema
+  InterpolateScriptSchema,
+  ListScriptVersionsSchema,
+  DiffScriptVersionsSchema,
+  RollbackScriptSchema
 } from './kb_shortcuts.js';
 
-import { createInteractiveDocsCodespace, listActiveCodespacesForRepo, listAllCodespacesForRepo, generateCodespacePortUrl, fetchKeyNameAndResources, deleteCodespace, stopCodespace, executeCodeOnCodespace } from './codespaces.js';
+import { ExecutionBackend, ExecutionBackendId, ExecutionTarget, ResolveTargetResult, EXECUTION_BACKEND_IDS, createCodespaceBackend, createLocalExecutorBackend, isExecutionBackendId } from './execution-backends.js';
+import { listEncryptionKeys, rotateEncryptionKey, validateEncryptionConfig } from './encryption.js';
+import { evaluatePolicy } from './policy.js';
+import { isTemplateContentTrusted, trustTemplateContent, getTemplateTrust, setTemplateTrust } from './template-trust.js';
+import { analyzeCodeStatically } from './static-analyzer.js';
+import { getOctokit, getObservedRateLimits } from './github-client.js';
+import { CodespaceCreationOptions, CodespaceCreationOptionsSchema, loadCodespaceDefaults, saveCodespaceDefaults, getCodespaceDefaultsPath } from './codespace-config.js';
+import { buildCodespaceUsageReport, usageReportToCsv } from './usage-report.js';
+import { JanitorPolicySchema, JanitorPolicyUpdates, DeletionCandidate, loadJanitorPolicy, saveJanitorPolicy, getJanitorPolicyPath, getLastJanitorReport, runCodespaceJanitor, startCodespaceJanitor } from './codespace-janitor.js';
+import { recordAuditEvent, queryAuditLog, verifyAuditLog, getAuditLogPath } from './audit-log.js';
+import { createExecutionGrant, verifyExecutionGrant, verifyExecutionTarget, TokenErrorCode } from './execution-tokens.js';
+import { STATE_STORE_MODES, isStateStoreMode, initializeStateStore } from './state-store.js';
+import { resolveSessionId, getSelectedCodespace, selectCodespace, listSelectedCodespaces, createPlanningToken, claimPlanStep, releasePlanStep, settlePlanStep, createExecutionToken, approveExecution, discardExecution, takeExecution, settleBatchUnit, listPendingExecutions } from './sessions.js';
+import { createTaskPlan, describeStep, formatPlanForApprover, PlanStepInputSchema, PlanStepReference, MAX_PLAN_STEPS } from './plans.js';
+import { BatchUnitInputSchema, BatchUnitOutcome, MAX_BATCH_UNITS, createBatchId, validateBatchDependencies, parseBatchApproval, applyDependencyRejections } from './batches.js';
+import { createExecutionId, registerExecution, markAwaitingApproval, completeExecution, getExecution, summarizeExecution, cancelExecution, listRunningExecutions, ExecutionJob } from './executions.js';
+
+import { createInteractiveDocsCodespace, findCodespaceExecutorRepos, listActiveCodespacesForRepo, listAllCodespacesForRepo, generateCodespacePortUrl, fetchKeyNameAndResources, deleteCodespace, stopCodespace, executeCodeOnCodespace, ExecutionOutputChunk } from './codespaces.js';
 
 let githubPatToken = process.env.GITHUB_PAT_TOKEN || "";
 let encryptMessages = process.env.ENCRYPT_MESSAGES || true;
 let socketKey = process.env.SOCKET_KEY || "";
+let defaultExecutionBackend = process.env.EXECUTION_BACKEND || "codespace";
+let localExecutorUrl = process.env.LOCAL_EXECUTOR_URL || "http://127.0.0.1:3000";
+// Never falls back to the GitHub PAT: the local URL can point anywhere
+let localExecutorToken = process.env.LOCAL_EXECUTOR_TOKEN || "";
+// 'progress' reports output sizes while code runs, 'output' also forwards the text before the
+// approver has reviewed the result, 'off' waits for the final result only
+let executionOutputStreaming = process.env.EXECUTION_OUTPUT_STREAMING || "progress";
+// Start a stopped executor codespace instead of asking for a new one
+let autoStartCodespaces = process.env.AUTO_START_CODESPACES !== 'false';
+let defaultExecutionTimeoutSeconds = Number(process.env.EXECUTION_TIMEOUT_SECONDS || 300);
+const MAX_EXECUTION_TIMEOUT_SECONDS = 3600;
+// How long an approval stays usable by 'execute', and a planning token by 'evaluate'
+let executionTokenTtlSeconds = Number(process.env.EXECUTION_TOKEN_TTL_SECONDS || 900);
+let planningTokenTtlSeconds = Number(process.env.PLANNING_TOKEN_TTL_SECONDS || 1800);
+// How long evaluations wait for the approver. Tokens awaiting approval outlive the wait;
+// the approval's own TTL only starts once it is granted
+const APPROVAL_TIMEOUT_MS = 300000;
+const pendingTokenTtlSeconds = (): number => APPROVAL_TIMEOUT_MS / 1000 + executionTokenTtlSeconds;
+// 'file' keeps plans, approved tokens and jobs in an encrypted file so they survive restarts
+let stateStoreMode = process.env.STATE_STORE || "memory";
 
 // Validate SOCKET_KEY is provided
 if (!socketKey) {
@@ -37,56 +82,297 @@ if (!socketKey) {
   process.exit(1);
 }
 
+if (!isExecutionBackendId(defaultExecutionBackend)) {
+  console.error(`❌ EXECUTION_BACKEND must be one of: ${EXECUTION_BACKEND_IDS.join(', ')} (got '${defaultExecutionBackend}')`);
+  process.exit(1);
+}
+
+if (!Number.isInteger(defaultExecutionTimeoutSeconds) || defaultExecutionTimeoutSeconds <= 0 || defaultExecutionTimeoutSeconds > MAX_EXECUTION_TIMEOUT_SECONDS) {
+  console.error(`❌ EXECUTION_TIMEOUT_SECONDS must be a whole number of seconds between 1 and ${MAX_EXECUTION_TIMEOUT_SECONDS} (got '${process.env.EXECUTION_TIMEOUT_SECONDS}')`);
+  process.exit(1);
+}
+
+for (const [name, value] of [['EXECUTION_TOKEN_TTL_SECONDS', executionTokenTtlSeconds], ['PLANNING_TOKEN_TTL_SECONDS', planningTokenTtlSeconds]] as const) {
+  if (!Number.isInteger(value) || value <= 0) {
+    console.error(`❌ ${name} must be a positive whole number of seconds (got '${process.env[name]}')`);
+    process.exit(1);
+  }
+}
+
+const encryptionConfigError = validateEncryptionConfig({ localEncryption: process.env.LOCAL_ENCRYPTION === 'true' });
+if (encryptionConfigError) {
+  console.error(`❌ ${encryptionConfigError}`);
+  process.exit(1);
+}
+
+if (!isStateStoreMode(stateStoreMode)) {
+  console.error(`❌ STATE_STORE must be one of: ${STATE_STORE_MODES.join(', ')} (got '${stateStoreMode}')`);
+  process.exit(1);
+}
+
+if (!['progress', 'output', 'off'].includes(executionOutputStreaming)) {
+  console.error(`❌ EXECUTION_OUTPUT_STREAMING must be one of: progress, output, off (got '${executionOutputStreaming}')`);
+  process.exit(1);
+}
+
 
 // Create WebSocketManager instance
 let wsManager: WebSocketManager | null = null;
 
-// Security evaluation mechanism
-let executionCodeCollection: any = {};
+// Deletes proposed by the codespace janitor go to the approver; null means nobody could be asked
+async function requestCodespaceDeletionApproval(candidates: DeletionCandidate[], timeoutMs: number): Promise<boolean | null> {
+  if (!wsManager) return null;
+
+  const approvalMessage = {
+    id: `approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    title: `Delete ${candidates.length} executor codespace${candidates.length === 1 ? '' : 's'}?`,
+    body: candidates.map(candidate => `- ${candidate.codespace}${candidate.repository ? ` (${candidate.repository})` : ''}: ${candidate.reason}`).join('\n'),
+    timestamp: Date.now(),
+    priority: 'normal',
+    sender: 'Codespace Janitor',
+    status: 'pending',
+    requiresResponse: true,
+    codespaces: candidates
+  };
+
+  try {
+    const response = await wsManager.sendAndWaitForApproval(approvalMessage, timeoutMs);
+    return response?.status === 'approved';
+  } catch (error) {
+    console.error('⚠️ Codespace deletion approval failed:', error);
+    return null;
+  }
+}
 
-// Function to generate a random execution token
-function generateExecutionToken(userId: string): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let result = '';
-  for (let i = 0; i < 16; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+function getExecutionBackend(backendId?: ExecutionBackendId): ExecutionBackend {
+  switch (backendId || defaultExecutionBackend) {
+    case 'local':
+      return createLocalExecutorBackend({ url: localExecutorUrl, token: localExecutorToken });
+    case 'codespace':
+    default:
+      return createCodespaceBackend({ token: githubPatToken, autoStart: autoStartCodespaces });
   }
-  
-  // Initialize user's collection if it doesn't exist, but preserve existing data
-  if (!executionCodeCollection[userId]) {
-    executionCodeCollection[userId] = {};
+}
+
+type ToolExtra = { sessionId?: string; _meta?: { progressToken?: string | number }; sendNotification: (notification: any) => Promise<void> };
+
+// Relays slow-step messages (e.g. waiting for a codespace to start) as progress and log notifications
+function createProgressReporter(extra: ToolExtra, logger: string) {
+  let step = 0;
+  return async (message: string) => {
+    step++;
+    if (extra._meta?.progressToken !== undefined) {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken: extra._meta.progressToken, progress: step, message }
+      });
+    }
+    await extra.sendNotification({
+      method: "notifications/message",
+      params: { level: "info", logger, data: message }
+    });
+  };
+}
+
+// Resolves the target for a tool call: an explicit codespace_name wins over the session selection
+async function resolveExecutionTarget(backend: ExecutionBackend, codespaceName?: string, extra?: ToolExtra): Promise<ResolveTargetResult> {
+  const selectedCodespaceName = getSelectedCodespace(resolveSessionId(extra?.sessionId));
+  const name = codespaceName || (backend.id === 'codespace' ? selectedCodespaceName || undefined : undefined);
+  const resolved = await backend.resolveTarget({ name, onProgress: extra ? createProgressReporter(extra, 'codespace') : undefined });
+
+  if (!resolved.success && !codespaceName && name) {
+    return {
+      ...resolved,
+      error: {
+        message: `${resolved.error?.message || 'Failed to resolve execution backend'}. The selected codespace is no longer available; use 'select-codespace' to choose another one.`
+      }
+    };
   }
-  
-  // Update execution token without resetting planning data
-  executionCodeCollection[userId].executionToken = result;
-  executionCodeCollection[userId][result] = {};
-  
-  return result;
+  return resolved;
+}
+
+const withoutToken = ({ token: _token, ...target }: ExecutionTarget): Omit<ExecutionTarget, 'token'> => target;
+
+// Summarizes a resolved backend for tool responses, never exposing the executor credential
+function describeExecutionBackend(backend: ExecutionBackend, resolved: ResolveTargetResult) {
+  return {
+    backend: backend.id,
+    description: backend.description,
+    available: resolved.success,
+    count: resolved.candidates?.length || 0,
+    message: resolved.success ? resolved.message : resolved.error?.message || 'Failed to resolve execution backend',
+    target: resolved.target ? withoutToken(resolved.target) : null,
+    candidates: (resolved.candidates || []).map(withoutToken)
+  };
 }
 
-function generatePlanningToken(userId: string): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let result = 'plan_' + '';
-  for (let i = 0; i < 16; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+const timeoutParameter = z.number().int().positive().max(MAX_EXECUTION_TIMEOUT_SECONDS).optional().describe(`Wall-clock limit in seconds for running the code once approved (defaults to EXECUTION_TIMEOUT_SECONDS, max ${MAX_EXECUTION_TIMEOUT_SECONDS}). The run is cancelled when it is exceeded`);
+
+const codespaceNameParameter = z.string().optional().describe("Name of the codespace to use. Defaults to the codespace chosen with 'select-codespace', otherwise the first active codespace");
+
+const backendParameter = z.enum(EXECUTION_BACKEND_IDS).optional().describe("Execution backend to use: 'codespace' (GitHub Codespace) or 'local' (local codespace-executor server). Defaults to the EXECUTION_BACKEND config");
+
+// Normalizes approver replies (objects when approved, JSON strings otherwise) for the audit log
+function describeApprovalDecision(approvalResponse: any): { status: string; feedback?: string } {
+  let response = approvalResponse;
+  if (typeof response === 'string') {
+    try {
+      response = JSON.parse(response);
+    } catch (error) {
+      return { status: 'unknown', feedback: response };
+    }
   }
-  
-  // Initialize user's planning collection if it doesn't exist
-  if (!executionCodeCollection[userId]) {
-    executionCodeCollection[userId] = {};
+  if (response?.status) {
+    return { status: response.status, feedback: response.feedback };
   }
-  
-  // Store planning token for single use only
-  executionCodeCollection[userId].planningToken = result;
-  executionCodeCollection[userId][result] = {
-    status: 'planned',
-    createdAt: new Date().toISOString(),
-    plan: null,
-    code: null,
-    used: false // Track if token has been used
+  return { status: response?.error === 'code execution rejected' ? 'rejected' : 'invalid', feedback: response?.feedback || response?.error };
+}
+
+// Builds the onOutput callback for executeCodeOnCodespace that relays executor output to the MCP client
+function createExecutionOutputRelay(extra: ToolExtra) {
+  if (executionOutputStreaming === 'off') return undefined;
+
+  const progressToken = extra._meta?.progressToken;
+  const lineCounts = { stdout: 0, stderr: 0 };
+
+  return async (chunk: ExecutionOutputChunk) => {
+    lineCounts[chunk.stream] += chunk.data ? chunk.data.split('\n').length - (chunk.data.endsWith('\n') ? 1 : 0) : 0;
+    // A dropped notification must not fail the execution
+    try {
+      if (progressToken !== undefined) {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: chunk.sequence + 1,
+            message: `${chunk.stream}: ${chunk.bytes} bytes received (${lineCounts.stdout} stdout / ${lineCounts.stderr} stderr lines so far)`
+          }
+        });
+      }
+      if (executionOutputStreaming === 'output' && chunk.data) {
+        await extra.sendNotification({
+          method: "notifications/message",
+          params: {
+            level: chunk.stream === 'stderr' ? 'warning' : 'info',
+            logger: `execute.${chunk.stream}`,
+            data: chunk.data
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Failed to relay execution output:', error);
+    }
+  };
+}
+
+// Refusals carry a stable code so an expired approval can be told apart from drift or tampering
+async function refuseExecution(executionToken: string, code: TokenErrorCode, message: string) {
+  await recordAuditEvent('execute_refused', { executionToken, code, message });
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text" as const,
+        text: `❌ EXECUTION ERROR [${code}]: ${message}`,
+      },
+    ],
+  };
+}
+
+// An approval whose pending token is already gone cannot be handed out
+function lostApprovalResult(executionToken: string) {
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text" as const,
+        text: `❌ EVALUATION ERROR [TOKEN_EXPIRED]: Execution token ${executionToken} was gone before its approval could be recorded. Call 'evaluate' again.`,
+      },
+    ],
   };
-  
-  return result;
+}
+
+interface ExecutionRun {
+  executionId: string;
+  executionToken: string;
+  code: string;
+  backend: ExecutionBackend;
+  target: ExecutionTarget;
+  timeoutSeconds: number;
+  controller: AbortController;
+  onOutput?: (chunk: ExecutionOutputChunk) => Promise<void>;
+}
+
+// Runs approved code, audits it and records the outcome on its job, returning the agent-facing result
+async function runExecution(run: ExecutionRun): Promise<{ state: ExecutionJob['state']; result?: any; error?: string }> {
+  const executeResponse = await executeCodeOnCodespace({
+    codespaceUrl: run.target.url,
+    code: run.code,
+    token: run.target.token,
+    wsManager: wsManager,
+    onOutput: run.onOutput,
+    executionId: run.executionId,
+    signal: run.controller.signal,
+    timeoutMs: run.timeoutSeconds * 1000,
+    onRunComplete: () => markAwaitingApproval(run.executionId)
+  });
+
+  // The decrypted result is for the audit log only; the agent sees what the approver released
+  const { executionResult, ...executeResponseForAgent } = executeResponse;
+  // The run can finish fine and still have its result withheld by the approver
+  const release = executeResponse.success ? describeApprovalDecision(executeResponse.webSocketResponse) : null;
+  await recordAuditEvent('execute_result', {
+    executionToken: run.executionToken,
+    executionId: run.executionId,
+    backend: run.backend.id,
+    codespace: run.target.name,
+    success: executeResponse.success,
+    cancelled: executeResponse.cancelled === true,
+    result: executionResult ?? null,
+    approval: release,
+    error: executeResponse.error?.message
+  });
+
+  let outcome: { state: 'succeeded' | 'failed' | 'cancelled'; result?: any; error?: string };
+  if (executeResponse.cancelled) {
+    outcome = {
+      state: 'cancelled',
+      result: {
+        executionId: run.executionId,
+        cancelled: true,
+        error: executeResponse.error?.message,
+        executorCancel: executeResponse.executorCancel
+      },
+      error: executeResponse.error?.message
+    };
+  } else if (!executeResponse.success) {
+    outcome = {
+      state: 'failed',
+      error: `Error executing code on ${run.backend.id} backend ${run.target.name} (execution ${run.executionId}): ${executeResponse.error?.message || 'Unknown error'}`
+    };
+  } else if (release?.status !== 'approved') {
+    outcome = {
+      state: 'failed',
+      error: `The result of execution ${run.executionId} was not released (status: ${release?.status || 'unknown'})${release?.feedback ? `: ${release.feedback}` : ''}`
+    };
+  } else {
+    outcome = {
+      state: 'succeeded',
+      result: {
+        execution_id: run.executionId,
+        codespace_used: {
+          backend: run.backend.id,
+          name: run.target.name,
+          url: run.target.url
+        },
+        execution_result: executeResponseForAgent,
+        securityNote: "✅ Code executed successfully. The execution token has been used up. Call 'evaluate' again before next execution."
+      }
+    };
+  }
+
+  completeExecution(run.executionId, outcome);
+  return outcome;
 }
 
 // Create server instance
@@ -97,6 +383,10 @@ const server = new McpServer({
     resources: {},
     tools: {},
   },
+}, {
+  capabilities: {
+    logging: {}, // Execution output is streamed as notifications/message
+  },
 });
 
 
@@ -333,11 +623,60 @@ server.tool(
 server.tool(
   "create-github-codespace",
   "create a github codespace",
-  async () => {
+  {
+    repository: CodespaceCreationOptionsSchema.shape.repository.describe("Repository as 'owner/repo'. Defaults to the first codespace-executor repository you can create codespaces for"),
+    branch: CodespaceCreationOptionsSchema.shape.branch.describe("Branch or ref to check out (default: main)"),
+    machine: CodespaceCreationOptionsSchema.shape.machine.describe("Machine type, e.g. 'standardLinux32gb'. Must be available for the repository; defaults to premiumLinux when available"),
+    region: CodespaceCreationOptionsSchema.shape.region.describe("Geographic region; assigned by IP when omitted"),
+    idle_timeout_minutes: CodespaceCreationOptionsSchema.shape.idleTimeoutMinutes.describe("Minutes of inactivity before the codespace stops (5-240)"),
+    retention_period_minutes: CodespaceCreationOptionsSchema.shape.retentionPeriodMinutes.describe("Minutes a stopped codespace is kept before it is deleted (0-43200)"),
+    devcontainer_path: CodespaceCreationOptionsSchema.shape.devcontainerPath.describe("Path to the devcontainer.json to use, e.g. '.devcontainer/devcontainer.json'"),
+    save_as_defaults: z.boolean().optional().describe("Also store the given settings as defaults for future codespaces")
+  },
+  async ({ repository, branch, machine, region, idle_timeout_minutes, retention_period_minutes, devcontainer_path, save_as_defaults }) => {
+    const requested: CodespaceCreationOptions = {
+      repository,
+      branch,
+      machine,
+      region,
+      idleTimeoutMinutes: idle_timeout_minutes,
+      retentionPeriodMinutes: retention_period_minutes,
+      devcontainerPath: devcontainer_path
+    };
+    const given = Object.fromEntries(Object.entries(requested).filter(([, value]) => value !== undefined)) as CodespaceCreationOptions;
+
+    const { defaults, error: defaultsError } = await loadCodespaceDefaults();
+    if (defaultsError) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ ${defaultsError}. Fix or reset it with 'configure-codespace-defaults'.`,
+          },
+        ],
+      };
+    }
+
+    const options = { ...defaults, ...given };
+    const [owner, repo] = options.repository ? options.repository.split('/') : [];
     const response = await createInteractiveDocsCodespace({
-      token: githubPatToken
+      token: githubPatToken,
+      owner,
+      repo,
+      branch: options.branch,
+      machine: options.machine,
+      region: options.region,
+      idleTimeoutMinutes: options.idleTimeoutMinutes,
+      retentionPeriodMinutes: options.retentionPeriodMinutes,
+      devcontainerPath: options.devcontainerPath
     })
 
+    // Only settings that produced a codespace are worth keeping
+    if (save_as_defaults && response.success) {
+      response.savedDefaults = await saveCodespaceDefaults(given);
+    }
+
     return {
       content: [
         {
@@ -350,6 +689,157 @@ server.tool(
 );
 
 
+server.tool(
+  "configure-codespace-defaults",
+  "Show or change the stored defaults used by 'create-github-codespace' (repository, branch, machine, region, idle timeout, retention, devcontainer). Call without arguments to see the current defaults",
+  {
+    repository: CodespaceCreationOptionsSchema.shape.repository.describe("Repository as 'owner/repo'"),
+    branch: CodespaceCreationOptionsSchema.shape.branch,
+    machine: CodespaceCreationOptionsSchema.shape.machine.describe("Machine type, e.g. 'standardLinux32gb'"),
+    region: CodespaceCreationOptionsSchema.shape.region,
+    idle_timeout_minutes: CodespaceCreationOptionsSchema.shape.idleTimeoutMinutes.describe("Minutes of inactivity before the codespace stops (5-240)"),
+    retention_period_minutes: CodespaceCreationOptionsSchema.shape.retentionPeriodMinutes.describe("Minutes a stopped codespace is kept before it is deleted (0-43200)"),
+    devcontainer_path: CodespaceCreationOptionsSchema.shape.devcontainerPath,
+    reset: z.boolean().optional().describe("Clear all stored defaults before applying the given settings")
+  },
+  async ({ repository, branch, machine, region, idle_timeout_minutes, retention_period_minutes, devcontainer_path, reset }) => {
+    try {
+      const updates = Object.fromEntries(Object.entries({
+        repository,
+        branch,
+        machine,
+        region,
+        idleTimeoutMinutes: idle_timeout_minutes,
+        retentionPeriodMinutes: retention_period_minutes,
+        devcontainerPath: devcontainer_path
+      }).filter(([, value]) => value !== undefined)) as CodespaceCreationOptions;
+
+      const changed = reset || Object.keys(updates).length > 0;
+      const stored = await loadCodespaceDefaults();
+      if (stored.error && !reset) {
+        throw new Error(`${stored.error}. Pass reset=true to replace it`);
+      }
+      const defaults = changed
+        ? await saveCodespaceDefaults(updates, { replace: reset })
+        : stored.defaults;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              updated: changed,
+              defaults,
+              path: getCodespaceDefaultsPath()
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error updating codespace defaults: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  },
+);
+
+server.tool(
+  "refresh-executor-repos",
+  "Rediscover codespace-executor repositories now instead of waiting for the cached index to expire. Use after forking the executor or gaining access to a new organization",
+  async () => {
+    const response = await findCodespaceExecutorRepos(githubPatToken, { forceRefresh: true });
+
+    if (!response.success) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error discovering executor repositories: ${response.error?.message || 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            source: response.source,
+            repositories: response.repositories.map((repo: any) => ({ full_name: repo.full_name, origin: repo.origin, private: repo.private })),
+            reposWithoutAccess: response.accessSummary.reposWithoutAccess.map((repo: any) => ({ full_name: repo.full_name, error: repo.error })),
+            fetchedAt: response.fetchedAt,
+            expiresAt: response.expiresAt,
+            requestStats: response.requestStats,
+            note: response.source === 'configured' ? 'EXECUTOR_REPOS is set, so discovery is skipped' : undefined
+          }, null, 2),
+        },
+      ],
+    };
+  },
+);
+
+server.tool(
+  "github-rate-limit-status",
+  "Show the remaining GitHub API quota for the configured token. Check this before bursts of codespace create/list calls and back off when quota is low",
+  async () => {
+    const observed = getObservedRateLimits();
+    try {
+      // Reading the rate limit does not count against it
+      const response = await getOctokit(githubPatToken).rest.rateLimit.get();
+      const resources = Object.entries(response.data.resources).map(([resource, quota]: [string, any]) => ({
+        resource,
+        limit: quota.limit,
+        remaining: quota.remaining,
+        used: quota.used,
+        resetAt: new Date(quota.reset * 1000).toISOString()
+      }));
+      const core = resources.find(resource => resource.resource === 'core');
+      const lowQuota = core ? core.remaining < core.limit * 0.1 : false;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              resources,
+              recentRateLimitEvents: observed.recentEvents,
+              recommendation: lowQuota
+                ? `Less than 10% of the core quota is left; avoid GitHub-heavy tools until ${core!.resetAt}`
+                : 'Quota is healthy'
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: false,
+              error: `Failed to fetch rate limit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              lastSeen: observed.lastSeen,
+              recentRateLimitEvents: observed.recentEvents
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  },
+);
+
 server.tool(
   "list-active-codespaces",
   "List active GitHub codespaces for the codespace-executor repo",
@@ -456,15 +946,20 @@ server.tool(
 
 server.tool(
   "evaluate",
-  "Evaluate code for security and generate execution token. Uses a planning token (single use only). This is step 2 in the plan -> evaluate -> execute workflow.",
+  "Evaluate code for security and generate execution token. Uses a planning token and carries out one step of its plan. This is step 2 in the plan -> evaluate -> execute workflow.",
   {
     planning_token: z.string().describe("Planning token from the 'plan' tool - REQUIRED to proceed with evaluation"),
+    step: z.number().int().positive().optional().describe("Number of the plan step this code carries out. Required when the plan has more than one step"),
     code: z.string().describe("The whole JavaScript/Node.js code to execute in the codespace"),
     explanation_of_code: z.string().describe("A complete breakdown step by step of what the code does and what services or resources it will use"),
     researchWouldBeHelpful: z.boolean().describe("Whether using the web search tool would be helpful to understand the code better"),
-    didResearch: z.boolean().describe("Did research before starting to write the code for the task")
+    didResearch: z.boolean().describe("Did research before starting to write the code for the task"),
+    backend: backendParameter,
+    codespace_name: codespaceNameParameter,
+    timeout_seconds: timeoutParameter
   },
-  async ({ planning_token, code, explanation_of_code, researchWouldBeHelpful, didResearch }) => {
+  async ({ planning_token, step, code, explanation_of_code, researchWouldBeHelpful, didResearch, backend, codespace_name, timeout_seconds }, extra) => {
+    const timeoutSeconds = timeout_seconds ?? defaultExecutionTimeoutSeconds;
     let linesOfCode = code.split("\n").length;
     if(linesOfCode > 400) {
       return {
@@ -479,10 +974,7 @@ server.tool(
     }
 
     // Check WebSocket connection status
-    const defaultUserId = "keyboard-mcp-user";
-    if (!executionCodeCollection[defaultUserId]) {
-      executionCodeCollection[defaultUserId] = {};
-    }
+    const sessionId = resolveSessionId(extra.sessionId);
     const webSocketStatus = {
       connected: wsManager !== null,
       connectionState: wsManager ? wsManager.getConnectionState() : "disconnected",
@@ -502,140 +994,138 @@ server.tool(
       };
     }
 
-    // Check GitHub Codespace status
-    let codespaceStatus = {
-      available: false,
-      count: 0,
-      message: "Failed to check codespace status",
-      activeCodespaces: []
-    };
-
-    try {
-      const codespacesResponse = await listActiveCodespacesForRepo({
-        token: githubPatToken
-      });
+    // Resolve where the code will run
+    const executionBackend = getExecutionBackend(backend);
+    const resolvedTarget = await resolveExecutionTarget(executionBackend, codespace_name, extra);
+    const executionBackendStatus = describeExecutionBackend(executionBackend, resolvedTarget);
 
-      if (codespacesResponse.success) {
-        codespaceStatus = {
-          available: codespacesResponse.codespaces.length > 0,
-          count: codespacesResponse.codespaces.length,
-          message: codespacesResponse.codespaces.length > 0
-            ? `${codespacesResponse.codespaces.length} active codespace(s) available for code execution`
-            : "No active codespaces found. Use 'create-github-codespace' tool to create one.  After that make sure to use the fetch-environment-and-resources tool to get the environment variables and resources available to you before you write and execute the code",
-          activeCodespaces: codespacesResponse.codespaces.map((cs: any) => ({
-            name: cs.name,
-            state: cs.state,
-            web_url: cs.web_url,
-            created_at: cs.created_at,
-            last_used_at: cs.last_used_at
-          }))
-        };
-      } else {
-        codespaceStatus.message = `Error checking codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`;
-      }
-    } catch (error) {
-      codespaceStatus.message = `Error checking codespaces: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    // Throw MCP error if no execution target is available
+    if (!resolvedTarget.success || !resolvedTarget.target) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ EXECUTION BACKEND ERROR: ${executionBackendStatus.message}`
+          }
+        ]
+      };
     }
 
-    // Throw MCP error if no active codespaces are available
-    if (!codespaceStatus.available) {
+    const planningCheck = claimPlanStep(sessionId, planning_token, step);
+    if ('valid' in planningCheck) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: "❌ CODESPACE ERROR: No active GitHub codespaces found. Please use the 'create-github-codespace' tool to create one before running security evaluation."
+            text: `❌ PLANNING ERROR [${planningCheck.code}]: ${planningCheck.message}`
           }
         ]
       };
     }
 
-    let activeCodespace = codespaceStatus.activeCodespaces[0];
-    let codespacesPortUrl = generateCodespacePortUrl(activeCodespace, 3000);
-
-    const response = await fetchKeyNameAndResources({ codespaceUrl: codespacesPortUrl, githubPatToken });
-
-    // Generate execution token
-    const currentExecutionToken = generateExecutionToken(defaultUserId);
-
-    // Prepare evaluation data
-    const evaluationData = {
-      success: true,
-      executionToken: currentExecutionToken,
-      connectionStatus: {
-        webSocket: webSocketStatus,
-        githubCodespaces: codespaceStatus
-      },
-      instructions: {
-        "CRITICAL": "You MUST include this execution token in ALL code execution requests",
-        "codeGuidelines": [
-          "1. Always validate user inputs and sanitize data",
-          "2. Never execute code that could harm the system or expose sensitive data",
-          "3. Use environment variables for sensitive information, never hardcode secrets",
-          "4. Limit file system access to necessary directories only",
-          "5. Avoid running shell commands unless absolutely necessary",
-          "6. Always handle errors gracefully and provide meaningful error messages",
-          "7. Use secure coding practices and follow the principle of least privilege",
-          "8. Very important is try to write one-off scripts, do not try to create app or servers unless explicitly asked to do so",
-          "9. Make sure you never overwrite any of the existing files, if you do create files make sure to create a new folder preface of 'temp' at the start",
-          "10. Make sure there are no syntax errors for example unescaped special characters or string literal issues",
-          "11. If you are using a third party API or libary try to validate what you by searching the web",
-        ],
-        "securityChecks": [
-          "Check for malicious patterns (rm -rf, eval, exec, etc.)",
-          "Validate all file paths and prevent directory traversal",
-          "Ensure no sensitive data is logged or exposed",
-          "Verify network requests are to trusted endpoints only"
-        ],
-        "requiredParameter": "You must include 'security_token' parameter with the current token in all execute-code functions"
-      },
-      timestamp: new Date().toISOString(),
-              message: "Execution token evaluation complete. Use the provided token for code execution."
-    };
-
-    // Send approval request via WebSocket if connected
-    if (wsManager) {
-      try {
-        const evaluationSummary = `
-Execution Token: ${currentExecutionToken}
-WebSocket Status: ${webSocketStatus.connectionState}
-Codespaces Available: ${codespaceStatus.count}
-
-This evaluation provides the execution token needed for code execution and current system status.
-
-Code to be executed: ${code}
+    const planStep = planningCheck.reference;
+    try {
+      const executionTarget = resolvedTarget.target;
+      const response = await fetchKeyNameAndResources({ codespaceUrl: executionTarget.url, githubPatToken: executionTarget.token });
+
+      // Generate execution token
+      const currentExecutionToken = createExecutionToken(sessionId, pendingTokenTtlSeconds()).token;
+
+      await recordAuditEvent('evaluate_submitted', {
+        planningToken: planning_token,
+        planId: planStep.planId,
+        step: planStep.step,
+        executionToken: currentExecutionToken,
+        backend: executionBackend.id,
+        codespace: executionTarget.name,
+        code,
+        explanation_of_code
+      });
 
-Explaination of code: ${explanation_of_code}
+      // Prepare evaluation data
+      const evaluationData = {
+        success: true,
+        executionToken: currentExecutionToken,
+        executionTimeoutSeconds: timeoutSeconds,
+        planStep,
+        connectionStatus: {
+          webSocket: webSocketStatus,
+          executionBackend: executionBackendStatus
+        },
+        instructions: {
+          "CRITICAL": "You MUST include this execution token in ALL code execution requests",
+          "codeGuidelines": [
+            "1. Always validate user inputs and sanitize data",
+            "2. Never execute code that could harm the system or expose sensitive data",
+            "3. Use environment variables for sensitive information, never hardcode secrets",
+            "4. Limit file system access to necessary directories only",
+            "5. Avoid running shell commands unless absolutely necessary",
+            "6. Always handle errors gracefully and provide meaningful error messages",
+            "7. Use secure coding practices and follow the principle of least privilege",
+            "8. Very important is try to write one-off scripts, do not try to create app or servers unless explicitly asked to do so",
+            "9. Make sure you never overwrite any of the existing files, if you do create files make sure to create a new folder preface of 'temp' at the start",
+            "10. Make sure there are no syntax errors for example unescaped special characters or string literal issues",
+            "11. If you are using a third party API or libary try to validate what you by searching the web",
+          ],
+          "securityChecks": [
+            "Check for malicious patterns (rm -rf, eval, exec, etc.)",
+            "Validate all file paths and prevent directory traversal",
+            "Ensure no sensitive data is logged or exposed",
+            "Verify network requests are to trusted endpoints only"
+          ],
+          "requiredParameter": "You must include 'security_token' parameter with the current token in all execute-code functions"
+        },
+        timestamp: new Date().toISOString(),
+                message: "Execution token evaluation complete. Use the provided token for code execution."
+      };
 
+      // Deterministic findings are attached to whatever the approver sees; high or critical ones rule out auto-approval
+      const staticAnalysis = analyzeCodeStatically(code);
 
-        `.trim();
+      // Consult the local policy before interrupting the approver
+      const policyEvaluation = await evaluatePolicy({ code, resources: response, threatLevel: staticAnalysis.threat_level });
 
-        const approvalMessage = {
-          id: `evaluate-approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          title: "Security Evaluation Request",
-          body: `System evaluation requested:\n\n${evaluationSummary}\n\nApprove to provide execution token and system status?`,
-          timestamp: Date.now(),
-          priority: "normal" as const,
-          sender: "MCP Security System",
-          status: 'pending' as const,
-          code: code,
-          explaination: explanation_of_code,
-          codeEval: true,
-          requiresResponse: true
+      if (policyEvaluation.decision !== 'escalate') {
+        const policyResponse = {
+          status: policyEvaluation.decision === 'allow' ? 'approved' : 'rejected',
+          feedback: policyEvaluation.reason,
+          decidedBy: 'policy',
+          matchedRules: policyEvaluation.matchedRules
         };
 
-        console.error(`🔔 Sending evaluation approval request`);
-
-        const approvalResponse = await wsManager.sendAndWaitForApproval(
-          approvalMessage,
-          300000 // 5 minutes timeout
-        );
-
-        if(approvalResponse.status === 'approved') {
-          executionCodeCollection[defaultUserId][currentExecutionToken] = {code: code}
-          executionCodeCollection[defaultUserId].executionToken = currentExecutionToken
+        let approvedExecution;
+        if (policyResponse.status === 'approved') {
+          approvedExecution = approveExecution(sessionId, currentExecutionToken, {
+            code: code,
+            backend: executionBackend.id,
+            codespaceName: executionTarget.name,
+            timeoutSeconds,
+            planStep,
+            grant: createExecutionGrant({
+              token: currentExecutionToken,
+              code,
+              backend: executionBackend.id,
+              codespaceName: executionTarget.name,
+              decision: { status: 'approved', decidedBy: 'policy' },
+              ttlSeconds: executionTokenTtlSeconds
+            })
+          });
+          if (!approvedExecution) {
+            return lostApprovalResult(currentExecutionToken);
+          }
+        } else {
+          discardExecution(sessionId, currentExecutionToken);
         }
-        
+        settlePlanStep(sessionId, planning_token, planStep.step, currentExecutionToken, policyResponse.status === 'approved');
+
+        await recordAuditEvent('evaluate_decision', {
+          executionToken: currentExecutionToken,
+          ...describeApprovalDecision(policyResponse),
+          decidedBy: 'policy',
+          matchedRules: policyEvaluation.matchedRules.map(rule => rule.id)
+        });
 
         return {
           content: [
@@ -643,69 +1133,194 @@ Explaination of code: ${explanation_of_code}
               type: "text",
               text: JSON.stringify({
                 ...evaluationData,
+                executionTokenExpiresAt: approvedExecution?.grant?.expiresAt,
                 codespaceResources: response,
-                approvalRequest: approvalMessage,
-                approvalResponse: approvalResponse,
-                approvalNote:  `Evaluation status and completed, status: ${approvalResponse.status}`
+                staticAnalysis,
+                policyEvaluation,
+                approvalResponse: policyResponse,
+                approvalNote: `Evaluation decided by local policy, status: ${policyResponse.status}`
               }, null, 2),
             },
           ],
         };
-      } catch (error) {
-        executionCodeCollection = {}
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                success: false,
-                error: error instanceof Error ? error.message : "Unknown error occurred",
-                message: "Security evaluation approval failed or timed out"
-              }, null, 2)
-            }
-          ]
-        };
       }
-    } else {
-      executionCodeCollection = {}
-      // If no WebSocket connection, return evaluation data with warning
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              ...evaluationData,
-              warning: "⚠️ WebSocket not connected - evaluation returned without approval workflow"
-            }, null, 2),
-          },
-        ],
-      };
+
+      const policySummary = policyEvaluation.matchedRules.length > 0
+        ? `${policyEvaluation.reason}\n${policyEvaluation.matchedRules.map(rule => `- ${rule.id} (${rule.action})${rule.reason ? `: ${rule.reason}` : ''}`).join('\n')}`
+        : policyEvaluation.reason;
+
+      // Send approval request via WebSocket if connected
+      if (wsManager) {
+        try {
+          const evaluationSummary = `
+Plan: ${planStep.task}
+${describeStep(planStep)}${planStep.resources.length ? `\nStep Resources: ${planStep.resources.join(', ')}` : ''}
+
+Execution Token: ${currentExecutionToken}
+WebSocket Status: ${webSocketStatus.connectionState}
+Execution Backend: ${executionBackend.id} (${executionTarget.name})
+Wall-clock Limit: ${timeoutSeconds} seconds (the run is cancelled after this)
+
+Policy: ${policySummary}
+
+Static Analysis (threat level: ${staticAnalysis.threat_level}):
+${staticAnalysis.security_issues?.length ? staticAnalysis.security_issues.map(issue => `- ${issue}`).join('\n') : '- No findings'}
+
+This evaluation provides the execution token needed for code execution and current system status.
+
+Code to be executed: ${code}
+
+Explaination of code: ${explanation_of_code}
+
+
+          `.trim();
+
+          const approvalMessage = {
+            id: `evaluate-approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            title: `Security Evaluation Request (${describeStep(planStep)})`,
+            body: `System evaluation requested:\n\n${evaluationSummary}\n\nApprove to provide execution token and system status?`,
+            timestamp: Date.now(),
+            priority: "normal" as const,
+            sender: "MCP Security System",
+            status: 'pending' as const,
+            code: code,
+            explaination: explanation_of_code,
+            policyEvaluation: policyEvaluation,
+            staticAnalysis: staticAnalysis,
+            timeoutSeconds,
+            planStep,
+            codeEval: true,
+            requiresResponse: true
+          };
+
+          console.error(`🔔 Sending evaluation approval request`);
+
+          const approvalResponse = await wsManager.sendAndWaitForApproval(
+            approvalMessage,
+            APPROVAL_TIMEOUT_MS
+          );
+
+          let approvedExecution;
+          if(approvalResponse.status === 'approved') {
+            approvedExecution = approveExecution(sessionId, currentExecutionToken, {
+              code: code,
+              backend: executionBackend.id,
+              codespaceName: executionTarget.name,
+              timeoutSeconds,
+              planStep,
+              grant: createExecutionGrant({
+                token: currentExecutionToken,
+                code,
+                backend: executionBackend.id,
+                codespaceName: executionTarget.name,
+                decision: { status: 'approved', decidedBy: 'approver', approvalId: approvalMessage.id },
+                ttlSeconds: executionTokenTtlSeconds
+              })
+            });
+            if (!approvedExecution) {
+              return lostApprovalResult(currentExecutionToken);
+            }
+          } else {
+            discardExecution(sessionId, currentExecutionToken);
+          }
+          settlePlanStep(sessionId, planning_token, planStep.step, currentExecutionToken, approvalResponse.status === 'approved');
+
+          await recordAuditEvent('evaluate_decision', {
+            executionToken: currentExecutionToken,
+            ...describeApprovalDecision(approvalResponse)
+          });
+          
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  ...evaluationData,
+                  executionTokenExpiresAt: approvedExecution?.grant?.expiresAt,
+                  codespaceResources: response,
+                  staticAnalysis,
+                  policyEvaluation,
+                  approvalRequest: approvalMessage,
+                  approvalResponse: approvalResponse,
+                  approvalNote:  `Evaluation status and completed, status: ${approvalResponse.status}`
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          // Only this step is settled; the rest of the plan and earlier approvals stay as they are
+          discardExecution(sessionId, currentExecutionToken);
+          settlePlanStep(sessionId, planning_token, planStep.step, currentExecutionToken, false);
+          await recordAuditEvent('evaluate_decision', {
+            executionToken: currentExecutionToken,
+            status: 'failed',
+            feedback: error instanceof Error ? error.message : 'Unknown error occurred'
+          });
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: false,
+                  error: error instanceof Error ? error.message : "Unknown error occurred",
+                  message: "Security evaluation approval failed or timed out"
+                }, null, 2)
+              }
+            ]
+          };
+        }
+      } else {
+        discardExecution(sessionId, currentExecutionToken);
+        // If no WebSocket connection, return evaluation data with warning
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                ...evaluationData,
+                warning: "⚠️ WebSocket not connected - evaluation returned without approval workflow"
+              }, null, 2),
+            },
+          ],
+        };
+      }
+    } finally {
+      // A step whose evaluation ended without a decision can be evaluated again
+      releasePlanStep(sessionId, planning_token, planStep.step);
     }
   }
 );
 
 
 server.tool(
-  "execute",
-  "Find the first active codespace-executor codespace and execute code on it",
+  "evaluate-batch",
+  `Evaluate several code units for one plan in a single approval request. The approver can approve all, some or none of them; a unit is only approved when every unit it depends on is. Each approved unit gets its own execution token, and 'execute' only accepts them in batch order, each one only after the units it depends on have run successfully. Use instead of repeated 'evaluate' calls when the steps of a plan are known up front (at most ${MAX_BATCH_UNITS} units).`,
   {
-    execution_token: z.string().describe("Execution token from the 'evaluate' tool - REQUIRED for code execution")
+    planning_token: z.string().describe("Planning token from the 'plan' tool - REQUIRED to proceed with evaluation"),
+    units: z.array(BatchUnitInputSchema).min(1).max(MAX_BATCH_UNITS).describe("Code units in the order they will be executed"),
+    backend: backendParameter,
+    codespace_name: codespaceNameParameter,
+    timeout_seconds: timeoutParameter
   },
-  async ({ execution_token }) => {
-    const defaultUserId = "keyboard-mcp-user";
-    
-    // Validate execution token
-    let currentExecutionToken = executionCodeCollection[defaultUserId]?.executionToken;
-    if (execution_token !== currentExecutionToken) {
+  async ({ planning_token, units, backend, codespace_name, timeout_seconds }, extra) => {
+    const timeoutSeconds = timeout_seconds ?? defaultExecutionTimeoutSeconds;
+    const sessionId = resolveSessionId(extra.sessionId);
+
+    const tooLong = units.findIndex(unit => unit.code.split("\n").length > 400);
+    const dependencyError = validateBatchDependencies(units);
+    if (tooLong !== -1 || dependencyError) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: `❌ EXECUTION ERROR: Invalid or expired execution token. Please call the 'evaluate' tool first to get the current token.`,
-          },
-        ],
+            text: dependencyError
+              ? `❌ BATCH ERROR: ${dependencyError}`
+              : `❌ CODE ERROR: Unit ${tooLong + 1} is too long. Please shorten each unit to 400 lines or less`
+          }
+        ]
       };
     }
 
@@ -721,78 +1336,477 @@ server.tool(
       };
     }
 
-    let code = executionCodeCollection[defaultUserId]?.[execution_token]?.code;
+    // Resolve where the code will run
+    const executionBackend = getExecutionBackend(backend);
+    const resolvedTarget = await resolveExecutionTarget(executionBackend, codespace_name, extra);
+    const executionBackendStatus = describeExecutionBackend(executionBackend, resolvedTarget);
 
-    // Generate new execution token for next execution
-    currentExecutionToken = generateExecutionToken(defaultUserId);
-    console.error(`🔒 New execution token generated: ${currentExecutionToken}`);
+    if (!resolvedTarget.success || !resolvedTarget.target) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ EXECUTION BACKEND ERROR: ${executionBackendStatus.message}`
+          }
+        ]
+      };
+    }
 
-    // First, get active codespaces
-    const codespacesResponse = await listActiveCodespacesForRepo({
-      token: githubPatToken
-    });
+    // Every unit carries out its own plan step; nothing is claimed unless all of them can be
+    const planSteps: PlanStepReference[] = [];
+    for (const [index, unit] of units.entries()) {
+      const planningCheck = claimPlanStep(sessionId, planning_token, unit.step ?? index + 1);
+      if ('valid' in planningCheck) {
+        planSteps.forEach(planStep => releasePlanStep(sessionId, planning_token, planStep.step));
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ PLANNING ERROR [${planningCheck.code}]: Unit ${index + 1}: ${planningCheck.message}`
+            }
+          ]
+        };
+      }
+      planSteps.push(planningCheck.reference);
+    }
+
+    try {
+      const executionTarget = resolvedTarget.target;
+      const response = await fetchKeyNameAndResources({ codespaceUrl: executionTarget.url, githubPatToken: executionTarget.token });
+      const batchId = createBatchId();
+
+      const evaluatedUnits = [];
+      for (const [index, unit] of units.entries()) {
+        const executionToken = createExecutionToken(sessionId, pendingTokenTtlSeconds()).token;
+        await recordAuditEvent('evaluate_submitted', {
+          planningToken: planning_token,
+          planId: planSteps[index].planId,
+          step: planSteps[index].step,
+          batchId,
+          unit: index + 1,
+          dependsOn: unit.depends_on || [],
+          executionToken,
+          backend: executionBackend.id,
+          codespace: executionTarget.name,
+          code: unit.code,
+          explanation_of_code: unit.explanation_of_code
+        });
+        const staticAnalysis = analyzeCodeStatically(unit.code);
+        evaluatedUnits.push({
+          unit: index + 1,
+          executionToken,
+          planStep: planSteps[index],
+          dependsOn: unit.depends_on || [],
+          staticAnalysis,
+          policyEvaluation: await evaluatePolicy({ code: unit.code, resources: response, threatLevel: staticAnalysis.threat_level })
+        });
+      }
+
+      // The local policy settles what it can; only escalated units reach the approver
+      const outcomes = new Map<number, BatchUnitOutcome>();
+      for (const evaluated of evaluatedUnits) {
+        if (evaluated.policyEvaluation.decision !== 'escalate') {
+          outcomes.set(evaluated.unit, {
+            unit: evaluated.unit,
+            status: evaluated.policyEvaluation.decision === 'allow' ? 'approved' : 'rejected',
+            decidedBy: 'policy',
+            feedback: evaluated.policyEvaluation.reason
+          });
+        }
+      }
+      applyDependencyRejections(units, outcomes);
+      const askedUnits = evaluatedUnits.filter(evaluated => !outcomes.has(evaluated.unit));
+
+      let approvalMessage;
+      let approvalResponse;
+      if (askedUnits.length > 0) {
+        const unitSummaries = evaluatedUnits.map(evaluated => {
+          const unit = units[evaluated.unit - 1];
+          const decided = outcomes.get(evaluated.unit);
+          return `
+--- Unit ${evaluated.unit} of ${units.length}: ${describeStep(evaluated.planStep)}${evaluated.planStep.resources.length ? `\nStep Resources: ${evaluated.planStep.resources.join(', ')}` : ''}
+Depends On: ${evaluated.dependsOn.length ? evaluated.dependsOn.map(dependency => `unit ${dependency}`).join(', ') : 'nothing'}
+${decided ? `Already decided (${decided.decidedBy}): ${decided.status}${decided.feedback ? ` - ${decided.feedback}` : ''}` : `Policy: ${evaluated.policyEvaluation.reason}`}
+Static Analysis (threat level: ${evaluated.staticAnalysis.threat_level}):
+${evaluated.staticAnalysis.security_issues?.length ? evaluated.staticAnalysis.security_issues.map(issue => `- ${issue}`).join('\n') : '- No findings'}
+
+Code to be executed: ${unit.code}
+
+Explaination of code: ${unit.explanation_of_code}
+          `.trim();
+        });
+
+        approvalMessage = {
+          id: `evaluate-batch-approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          title: `Batch Evaluation Request (${askedUnits.length} of ${units.length} units)`,
+          body: `Batch evaluation requested for: ${planSteps[0].task}\n\nExecution Backend: ${executionBackend.id} (${executionTarget.name})\nWall-clock Limit: ${timeoutSeconds} seconds per unit\n\n${unitSummaries.join('\n\n')}\n\nApprove units ${askedUnits.map(evaluated => evaluated.unit).join(', ')}? Units run in order; a unit is dropped if a unit it depends on is not approved.`,
+          timestamp: Date.now(),
+          priority: "normal" as const,
+          sender: "MCP Security System",
+          status: 'pending' as const,
+          batchId,
+          units: evaluatedUnits.map(evaluated => ({
+            unit: evaluated.unit,
+            planStep: evaluated.planStep,
+            dependsOn: evaluated.dependsOn,
+            code: units[evaluated.unit - 1].code,
+            explaination: units[evaluated.unit - 1].explanation_of_code,
+            policyEvaluation: evaluated.policyEvaluation,
+            staticAnalysis: evaluated.staticAnalysis,
+            decided: outcomes.get(evaluated.unit) || null
+          })),
+          askedUnits: askedUnits.map(evaluated => evaluated.unit),
+          timeoutSeconds,
+          codeEval: true,
+          batchEval: true,
+          requiresResponse: true
+        };
+
+        console.error(`🔔 Sending batch evaluation approval request`);
+
+        try {
+          approvalResponse = await wsManager.sendAndWaitForApproval(
+            approvalMessage,
+            APPROVAL_TIMEOUT_MS
+          );
+        } catch (error) {
+          // Only this batch is dropped; its steps are released on the way out and other approvals stay as they are
+          for (const evaluated of evaluatedUnits) {
+            discardExecution(sessionId, evaluated.executionToken);
+          }
+          for (const evaluated of evaluatedUnits) {
+            await recordAuditEvent('evaluate_decision', {
+              executionToken: evaluated.executionToken,
+              batchId,
+              status: 'failed',
+              feedback: error instanceof Error ? error.message : 'Unknown error occurred'
+            });
+          }
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: false,
+                  batchId,
+                  error: error instanceof Error ? error.message : "Unknown error occurred",
+                  message: "Batch evaluation approval failed or timed out"
+                }, null, 2)
+              }
+            ]
+          };
+        }
+
+        const approvedUnits = parseBatchApproval(approvalResponse, approvalMessage.askedUnits);
+        const { feedback } = describeApprovalDecision(approvalResponse);
+        for (const evaluated of askedUnits) {
+          outcomes.set(evaluated.unit, {
+            unit: evaluated.unit,
+            status: approvedUnits.has(evaluated.unit) ? 'approved' : 'rejected',
+            decidedBy: 'approver',
+            feedback
+          });
+        }
+        applyDependencyRejections(units, outcomes);
+      }
+
+      // Approved units get grants; each one waits for the approved units before it
+      const approvedTokens: string[] = [];
+      const results = [];
+      for (const evaluated of evaluatedUnits) {
+        let outcome = outcomes.get(evaluated.unit)!;
+        const unit = units[evaluated.unit - 1];
+        let approvedExecution;
+        if (outcome.status === 'approved') {
+          approvedExecution = approveExecution(sessionId, evaluated.executionToken, {
+            code: unit.code,
+            explanation: unit.explanation_of_code,
+            backend: executionBackend.id,
+            codespaceName: executionTarget.name,
+            timeoutSeconds,
+            planStep: evaluated.planStep,
+            batch: { batchId, unit: evaluated.unit, totalUnits: units.length, after: [...approvedTokens], dependsOn: evaluated.dependsOn },
+            grant: createExecutionGrant({
+              token: evaluated.executionToken,
+              code: unit.code,
+              backend: executionBackend.id,
+              codespaceName: executionTarget.name,
+              decision: outcome.decidedBy === 'policy'
+                ? { status: 'approved', decidedBy: 'policy' }
+                : { status: 'approved', decidedBy: 'approver', approvalId: approvalMessage!.id },
+              // Units run one after another, so each one also gets the time the units before it may take
+              ttlSeconds: executionTokenTtlSeconds + approvedTokens.length * timeoutSeconds
+            })
+          });
+          if (approvedExecution) {
+            approvedTokens.push(evaluated.executionToken);
+          } else {
+            // Units that depend on an approval that could not be recorded are dropped with it
+            outcome = { ...outcome, status: 'rejected', feedback: 'The execution token was gone before this approval could be recorded' };
+            outcomes.set(evaluated.unit, outcome);
+            applyDependencyRejections(units, outcomes);
+          }
+        } else {
+          discardExecution(sessionId, evaluated.executionToken);
+        }
+        settlePlanStep(sessionId, planning_token, evaluated.planStep.step, evaluated.executionToken, outcome.status === 'approved');
+
+        await recordAuditEvent('evaluate_decision', {
+          executionToken: evaluated.executionToken,
+          batchId,
+          unit: evaluated.unit,
+          status: outcome.status,
+          feedback: outcome.feedback,
+          decidedBy: outcome.decidedBy,
+          ...(outcome.decidedBy === 'policy' ? { matchedRules: evaluated.policyEvaluation.matchedRules.map(rule => rule.id) } : {})
+        });
+
+        results.push({
+          unit: evaluated.unit,
+          planStep: evaluated.planStep,
+          dependsOn: evaluated.dependsOn,
+          status: outcome.status,
+          decidedBy: outcome.decidedBy,
+          feedback: outcome.feedback,
+          executionToken: outcome.status === 'approved' ? evaluated.executionToken : undefined,
+          executionTokenExpiresAt: approvedExecution?.grant?.expiresAt,
+          staticAnalysis: evaluated.staticAnalysis,
+          policyEvaluation: evaluated.policyEvaluation
+        });
+      }
 
-    if (!codespacesResponse.success) {
       return {
-        isError: true,
         content: [
           {
             type: "text",
-            text: `Failed to fetch active codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`,
+            text: JSON.stringify({
+              success: true,
+              batchId,
+              approvedUnits: results.filter(result => result.status === 'approved').map(result => result.unit),
+              executionTimeoutSeconds: timeoutSeconds,
+              connectionStatus: {
+                executionBackend: executionBackendStatus
+              },
+              units: results,
+              codespaceResources: response,
+              ...(approvalMessage ? { approvalRequestId: approvalMessage.id, approvalResponse } : {}),
+              instructions: {
+                "CRITICAL": "Call 'execute' with each approved execution token in unit order. A token is refused until the approved units before it have been executed, and discarded if a unit it depends on did not run successfully",
+                "rejectedUnits": "Rejected steps can be evaluated again with revised code using the same planning token"
+              },
+              timestamp: new Date().toISOString()
+            }, null, 2),
           },
         ],
       };
+    } finally {
+      // Units whose evaluation ended without a decision can be evaluated again
+      planSteps.forEach(planStep => releasePlanStep(sessionId, planning_token, planStep.step));
     }
+  }
+);
 
-    if (codespacesResponse.codespaces.length === 0) {
+server.tool(
+  "execute",
+  "Execute approved code on the execution backend it was evaluated against (the first active codespace-executor codespace by default). Tokens from 'evaluate-batch' are accepted in unit order only",
+  {
+    execution_token: z.string().describe("Execution token from the 'evaluate' tool - REQUIRED for code execution"),
+    backend: backendParameter,
+    codespace_name: codespaceNameParameter,
+    async: z.boolean().optional().describe("Return an execution_id immediately and run in the background. Use for long-running scripts, then poll 'get-execution-status' and fetch the output with 'get-execution-result'")
+  },
+  async ({ execution_token, backend, codespace_name, async: runAsync }, extra) => {
+    const sessionId = resolveSessionId(extra.sessionId);
+
+    if (!wsManager) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: "No active codespaces found for codespace-executor repo",
-          },
-        ],
+            text: "❌ WEBSOCKET ERROR: WebSocket not connected. Please use the 'connect-websocket' tool to establish connection before running security evaluation."
+          }
+        ]
       };
     }
 
-    // Use the first active codespace
-    const firstCodespace = codespacesResponse.codespaces[0];
-    const port3000Url = generateCodespacePortUrl(firstCodespace, 3000);
+    // Validate execution token; it is used up from here on, whatever the outcome
+    const taken = takeExecution(sessionId, execution_token);
+    if (!('entry' in taken)) {
+      return refuseExecution(execution_token, taken.code, taken.message);
+    }
+
+    const { code, grant, codespaceName: evaluatedCodespaceName, batch } = taken.entry;
+
+    // Units of the same batch that depend on this one only run once it has succeeded
+    let finishedState: Promise<ExecutionJob['state']> | null = null;
+    try {
+      // Code runs where it was evaluated, so the environment the approver saw is the one it runs in
+      if (codespace_name && evaluatedCodespaceName && codespace_name !== evaluatedCodespaceName) {
+        return refuseExecution(execution_token, 'CODESPACE_MISMATCH', `This code was evaluated against '${evaluatedCodespaceName}' and can only run there. Call 'evaluate' again with codespace_name '${codespace_name}' to run it elsewhere.`);
+      }
+      const timeoutSeconds = taken.entry.timeoutSeconds ?? defaultExecutionTimeoutSeconds;
+
+      // The approval itself must hold before anything is resolved, which can start a stopped codespace
+      const grantCheck = verifyExecutionGrant({ token: execution_token, grant, code });
+      if (!grantCheck.valid || !grant) {
+        return refuseExecution(execution_token, grantCheck.valid ? 'TOKEN_NOT_APPROVED' : grantCheck.code, `${grantCheck.valid ? 'No approved code is bound to this execution token' : grantCheck.message}. Call 'evaluate' again.`);
+      }
+
+      if (backend && backend !== grant.backend) {
+        return refuseExecution(execution_token, 'CODESPACE_MISMATCH', `This code was evaluated against the ${grant.backend} backend and can only run there. Call 'evaluate' again with backend '${backend}' to run it elsewhere.`);
+      }
+
+      // Run where the code was evaluated; the target check below refuses anything that resolves differently
+      const executionBackend = getExecutionBackend(grant.backend as ExecutionBackendId);
+      const resolvedTarget = await resolveExecutionTarget(executionBackend, grant.codespaceName, extra);
+
+      if (!resolvedTarget.success || !resolvedTarget.target) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `${resolvedTarget.error?.message || 'Failed to resolve execution backend'}. Try using the fetch-environment-and-resources tool to get the environment variables and resources available to you before you write and execute the code`,
+            },
+          ],
+        };
+      }
+
+      const executionTarget = resolvedTarget.target;
+
+      // The approval is bound to where the code was evaluated
+      const targetCheck = verifyExecutionTarget({ grant, backend: executionBackend.id, codespaceName: executionTarget.name });
+      if (!targetCheck.valid) {
+        return refuseExecution(execution_token, targetCheck.code, `${targetCheck.message}. Call 'evaluate' again.`);
+      }
+      const executionId = createExecutionId();
+      const controller = new AbortController();
+      registerExecution({
+        executionId,
+        executionToken: execution_token,
+        sessionId,
+        mode: runAsync ? 'async' : 'sync',
+        backend: executionBackend.id,
+        target: executionTarget.name,
+        timeoutSeconds
+      }, controller);
+
+      await recordAuditEvent('execute_started', {
+        executionToken: execution_token,
+        executionId,
+        mode: runAsync ? 'async' : 'sync',
+        backend: executionBackend.id,
+        codespace: executionTarget.name,
+        codespaceUrl: executionTarget.url,
+        timeoutSeconds,
+        ...(taken.entry.planStep ? { planId: taken.entry.planStep.planId, step: taken.entry.planStep.step } : {}),
+        ...(taken.entry.batch ? { batchId: taken.entry.batch.batchId, unit: taken.entry.batch.unit } : {})
+      });
+
+      // The grant check has matched the code against the approved hash, so it is present
+      const run = { executionId, executionToken: execution_token, code: code!, backend: executionBackend, target: executionTarget, timeoutSeconds, controller };
+
+      if (runAsync) {
+        // Notifications are tied to this request, so background jobs only report through the job registry
+        finishedState = runExecution(run).then(outcome => outcome.state, error => {
+          completeExecution(executionId, { state: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+          return 'failed' as const;
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                execution_id: executionId,
+                state: 'running',
+                codespace_used: {
+                  backend: executionBackend.id,
+                  name: executionTarget.name,
+                  url: executionTarget.url
+                },
+                timeoutSeconds,
+                instructions: "Poll 'get-execution-status' with this execution_id, then fetch the approved output with 'get-execution-result'. Use 'cancel-execution' to stop it. The execution token has been used up; call 'evaluate' again before the next execution."
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      // MCP request cancellation stops the run the same way cancel-execution does
+      const cancelOnRequestAbort = () => cancelExecution(executionId, 'MCP request was cancelled');
+      extra.signal.addEventListener('abort', cancelOnRequestAbort, { once: true });
+
+      // Tell the client the execution id up front so it can be cancelled while running
+      try {
+        await extra.sendNotification({
+          method: "notifications/message",
+          params: {
+            level: "info",
+            logger: "execute",
+            data: { executionId, status: 'started', timeoutSeconds, message: `Execution ${executionId} started; use 'cancel-execution' to stop it` }
+          }
+        });
+      } catch (error) {
+        console.error('Failed to announce execution start:', error);
+      }
+
+      let outcome: Awaited<ReturnType<typeof runExecution>>;
+      try {
+        outcome = await runExecution({ ...run, onOutput: createExecutionOutputRelay(extra) });
+      } catch (error) {
+        // Same as the async path: a job that threw must not stay 'running' forever
+        outcome = { state: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+        completeExecution(executionId, { state: 'failed', error: outcome.error });
+      } finally {
+        extra.signal.removeEventListener('abort', cancelOnRequestAbort);
+      }
+      finishedState = Promise.resolve(outcome.state);
 
-    if (port3000Url.startsWith('Error')) {
       return {
-        isError: true,
+        ...(outcome.state === 'succeeded' ? {} : { isError: true }),
         content: [
           {
             type: "text",
-            text: `Error generating codespace URL: ${port3000Url}. Try using the fetch-environment-and-resources tool to get the environment variables and resources available to you before you write and execute the code`,
+            text: outcome.state === 'succeeded' || outcome.state === 'cancelled'
+              ? JSON.stringify(outcome.result, null, 2)
+              : outcome.error || 'Unknown error',
           },
         ],
       };
+    } finally {
+      if (batch) {
+        const settle = (state: ExecutionJob['state']) => settleBatchUnit(sessionId, batch.batchId, batch.unit, state === 'succeeded');
+        if (finishedState) {
+          finishedState.then(settle);
+        } else {
+          settle('failed'); // Refused or broken off before it ran
+        }
+      }
     }
+  },
+);
 
-    // Clean up used execution token
-    if (executionCodeCollection[defaultUserId]) {
-      delete executionCodeCollection[defaultUserId][execution_token];
-    }
-    console.warn("makes it before execute code on codespace")
-    // Execute the code
-    const executeResponse = await executeCodeOnCodespace({
-      codespaceUrl: port3000Url,
-      code: code,
-      token: githubPatToken,
-      wsManager: wsManager
-    });
+server.tool(
+  "get-execution-status",
+  "Get the state of an execution started by 'execute' (running, awaiting_approval, succeeded, failed or cancelled), with timestamps and the codespace it ran on",
+  {
+    execution_id: z.string().describe("Execution ID returned by 'execute'")
+  },
+  async ({ execution_id }, extra) => {
+    const job = getExecution(execution_id, resolveSessionId(extra.sessionId));
 
-    // Check if code execution failed
-    if (!executeResponse.success) {
+    if (!job) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: `Error executing code on codespace ${firstCodespace.name}: ${executeResponse.error?.message || 'Unknown error'}`,
+            text: `❌ No execution with ID ${execution_id}. Finished executions are kept for 24 hours.`,
           },
         ],
       };
@@ -802,14 +1816,7 @@ server.tool(
       content: [
         {
           type: "text",
-          text: JSON.stringify({
-            codespace_used: {
-              name: firstCodespace.name,
-              url: port3000Url
-            },
-            execution_result: executeResponse,
-            securityNote: "✅ Code executed successfully. Security token has been refreshed. Call 'evaluate' again before next execution."
-          }, null, 2),
+          text: JSON.stringify(summarizeExecution(job), null, 2),
         },
       ],
     };
@@ -817,56 +1824,204 @@ server.tool(
 );
 
 server.tool(
-  "fetch-environment-and-resources",
-  "If you need to use any code that requires a specific npm or sdk or an API key, use this to check what is available to you before you write and execute the code",
-  async () => {
-    // First, get active codespaces
-    const codespacesResponse = await listActiveCodespacesForRepo({
-      token: githubPatToken
-    });
+  "get-execution-result",
+  "Get the approved result of a finished execution started by 'execute'",
+  {
+    execution_id: z.string().describe("Execution ID returned by 'execute'")
+  },
+  async ({ execution_id }, extra) => {
+    const job = getExecution(execution_id, resolveSessionId(extra.sessionId));
 
-    if (!codespacesResponse.success) {
+    if (!job) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: `Failed to fetch active codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`,
+            text: `❌ No execution with ID ${execution_id}. Finished executions are kept for 24 hours.`,
           },
         ],
       };
     }
 
-    if (codespacesResponse.codespaces.length === 0) {
+    if (job.state === 'running' || job.state === 'awaiting_approval') {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: "No active codespaces found for codespace-executor repo",
+            text: `⏳ Execution ${execution_id} is still ${job.state === 'running' ? 'running' : 'waiting for the approver to release its result'}. Check again with 'get-execution-status'.`,
           },
         ],
       };
     }
 
-    // Use the first active codespace
-    const firstCodespace = codespacesResponse.codespaces[0];
-    const codespacesPortUrl = generateCodespacePortUrl(firstCodespace, 3000);
+    return {
+      ...(job.state === 'succeeded' ? {} : { isError: true }),
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            executionId: job.executionId,
+            state: job.state,
+            finishedAt: job.finishedAt,
+            ...(job.result !== undefined ? { result: job.result } : {}),
+            ...(job.error ? { error: job.error } : {})
+          }, null, 2),
+        },
+      ],
+    };
+  },
+);
+
+server.tool(
+  "cancel-execution",
+  "Cancel a running execution started by 'execute'. Stops waiting for the executor and asks it to kill the process",
+  {
+    execution_id: z.string().describe("Execution ID announced when 'execute' started")
+  },
+  async ({ execution_id }, extra) => {
+    const execution = getExecution(execution_id, resolveSessionId(extra.sessionId));
+
+    if (!execution || !cancelExecution(execution_id, 'Cancelled with the cancel-execution tool')) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: execution?.state === 'awaiting_approval'
+              ? `❌ Execution ${execution_id} has already finished running; its result is waiting for the approver.`
+              : `❌ No running execution with ID ${execution_id}. It may have already finished or been cancelled.`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            executionId: execution_id,
+            status: 'cancelling',
+            backend: execution.backend,
+            target: execution.target,
+            startedAt: execution.createdAt,
+            message: execution.mode === 'async'
+              ? "Cancellation requested. Check 'get-execution-status' for the final state."
+              : "Cancellation requested. The 'execute' call returns once the executor run has been stopped."
+          }, null, 2),
+        },
+      ],
+    };
+  },
+);
+
+server.tool(
+  "list-pending-executions",
+  "List what is outstanding in this session: execution tokens waiting for approval or approved but not yet executed, and executions that are still running or waiting for the approver to release their result",
+  {
+    all_sessions: z.boolean().optional().describe("Also list other sessions' outstanding work. Their execution tokens are not shown")
+  },
+  async ({ all_sessions }, extra) => {
+    const sessionId = resolveSessionId(extra.sessionId);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            sessionId,
+            tokens: listPendingExecutions(sessionId, { allSessions: all_sessions }),
+            executions: all_sessions ? listRunningExecutions() : listRunningExecutions(sessionId)
+          }, null, 2),
+        },
+      ],
+    };
+  },
+);
+
+server.tool(
+  "select-codespace",
+  "Choose which codespace plan, evaluate, execute, fetch-environment-and-resources and initialize-llm use for the rest of this session, instead of the first active one",
+  {
+    codespace_name: z.string().optional().describe("Name of an active codespace-executor codespace. Omit to list the active codespaces and the current selection"),
+    clear: z.boolean().optional().describe("Clear the selection and go back to using the first active codespace")
+  },
+  async ({ codespace_name, clear }, extra) => {
+    const sessionId = resolveSessionId(extra.sessionId);
+    if (clear) {
+      selectCodespace(sessionId, null);
+    }
+
+    // Listing never starts anything; selecting a stopped codespace starts it
+    const codespaceBackend = createCodespaceBackend({ token: githubPatToken, autoStart: autoStartCodespaces && !!codespace_name });
+    const resolvedTarget = await codespaceBackend.resolveTarget({ name: codespace_name });
+    const activeCodespaces = (resolvedTarget.candidates || []).map(({ token, ...candidate }) => candidate);
+
+    if (codespace_name) {
+      if (!resolvedTarget.success || !resolvedTarget.target) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ ${resolvedTarget.error?.message || 'Failed to resolve codespace'}`,
+            },
+          ],
+        };
+      }
+      selectCodespace(sessionId, resolvedTarget.target.name);
+    }
+    const selectedCodespaceName = getSelectedCodespace(sessionId);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            selectedCodespace: selectedCodespaceName,
+            selectionActive: selectedCodespaceName === null || activeCodespaces.some(codespace => codespace.name === selectedCodespaceName),
+            message: selectedCodespaceName
+              ? `Codespace '${selectedCodespaceName}' is used unless a tool call passes codespace_name`
+              : 'No codespace selected; the first active codespace is used',
+            activeCodespaces
+          }, null, 2),
+        },
+      ],
+    };
+  },
+);
 
-    if (codespacesPortUrl.startsWith('Error')) {
+server.tool(
+  "fetch-environment-and-resources",
+  "If you need to use any code that requires a specific npm or sdk or an API key, use this to check what is available to you before you write and execute the code",
+  {
+    backend: backendParameter,
+    codespace_name: codespaceNameParameter
+  },
+  async ({ backend, codespace_name }, extra) => {
+    const executionBackend = getExecutionBackend(backend);
+    const resolvedTarget = await resolveExecutionTarget(executionBackend, codespace_name, extra);
+
+    if (!resolvedTarget.success || !resolvedTarget.target) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: `Error generating codespace URL: ${codespacesPortUrl}`,
+            text: resolvedTarget.error?.message || 'Failed to resolve execution backend',
           },
         ],
       };
     }
 
+    const executionTarget = resolvedTarget.target;
+
     // Fetch key names and resources
-    const response = await fetchKeyNameAndResources({ codespaceUrl: codespacesPortUrl, githubPatToken });
+    const response = await fetchKeyNameAndResources({ codespaceUrl: executionTarget.url, githubPatToken: executionTarget.token });
 
     // Check if fetching resources failed
     if (!response.success) {
@@ -887,8 +2042,9 @@ server.tool(
           type: "text",
           text: JSON.stringify({
             codespace_used: {
-              name: firstCodespace.name,
-              url: codespacesPortUrl
+              backend: executionBackend.id,
+              name: executionTarget.name,
+              url: executionTarget.url
             },
             fetch_result: response
           }, null, 2),
@@ -1057,41 +2213,185 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Failed to fetch active codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`,
+            text: `Failed to fetch active codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+
+    if (codespacesResponse.codespaces.length === 0) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: "No active codespaces found for codespace-executor repo",
+          },
+        ],
+      };
+    }
+
+    // Use the first active codespace
+    const firstCodespace = codespacesResponse.codespaces[0];
+
+    // Delete the codespace
+    const deleteResponse = await deleteCodespace({
+      codespaceName: firstCodespace.name,
+      token: githubPatToken
+    });
+
+    // Check if deleting codespace failed
+    if (!deleteResponse.success) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `Error deleting codespace ${firstCodespace.name}: ${deleteResponse.error?.message || 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            codespace_deleted: {
+              name: firstCodespace.name,
+              web_url: firstCodespace.web_url
+            },
+            delete_result: deleteResponse
+          }, null, 2),
+        },
+      ],
+    };
+  },
+);
+
+
+server.tool(
+  "configure-codespace-janitor",
+  "Show or change the policy of the codespace janitor, which stops idle executor codespaces, caps how many run at once and, after approval, deletes old or unused ones. A limit of 0 turns that rule off. Call without arguments to see the current policy and the last run",
+  {
+    enabled: JanitorPolicySchema.shape.enabled.removeDefault().optional().describe("Run the janitor in the background"),
+    interval_minutes: JanitorPolicySchema.shape.intervalMinutes.removeDefault().optional().describe("Minutes between background runs (1-1440)"),
+    stop_idle_after_minutes: JanitorPolicySchema.shape.stopIdleAfterMinutes.removeDefault().optional().describe("Stop a running codespace after this many minutes without use or executions"),
+    delete_older_than_days: JanitorPolicySchema.shape.deleteOlderThanDays.removeDefault().optional().describe("Delete codespaces created more than this many days ago"),
+    delete_unused_for_days: JanitorPolicySchema.shape.deleteUnusedForDays.removeDefault().optional().describe("Delete codespaces that have not run an execution for this many days"),
+    max_active_codespaces: JanitorPolicySchema.shape.maxActiveCodespaces.removeDefault().optional().describe("Most executor codespaces allowed to run at once; the least recently used are stopped"),
+    approval_timeout_seconds: JanitorPolicySchema.shape.approvalTimeoutSeconds.removeDefault().optional().describe("How long to wait for the approver to accept deletions"),
+    reset: z.boolean().optional().describe("Restore the built-in policy before applying the given settings")
+  },
+  async ({ enabled, interval_minutes, stop_idle_after_minutes, delete_older_than_days, delete_unused_for_days, max_active_codespaces, approval_timeout_seconds, reset }) => {
+    try {
+      const updates = Object.fromEntries(Object.entries({
+        enabled,
+        intervalMinutes: interval_minutes,
+        stopIdleAfterMinutes: stop_idle_after_minutes,
+        deleteOlderThanDays: delete_older_than_days,
+        deleteUnusedForDays: delete_unused_for_days,
+        maxActiveCodespaces: max_active_codespaces,
+        approvalTimeoutSeconds: approval_timeout_seconds
+      }).filter(([, value]) => value !== undefined)) as JanitorPolicyUpdates;
+
+      const changed = reset || Object.keys(updates).length > 0;
+      const stored = await loadJanitorPolicy();
+      if (stored.error && !reset) {
+        throw new Error(`${stored.error}. Pass reset=true to replace it`);
+      }
+      const policy = changed
+        ? await saveJanitorPolicy(updates, { replace: reset })
+        : stored.policy;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              updated: changed,
+              policy,
+              path: getJanitorPolicyPath(),
+              lastRun: getLastJanitorReport()
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error updating codespace janitor policy: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
       };
     }
+  },
+);
 
-    if (codespacesResponse.codespaces.length === 0) {
+server.tool(
+  "run-codespace-janitor",
+  "Apply the codespace janitor policy now, whether or not background runs are enabled. Use dry_run to see which codespaces would be stopped or deleted without changing anything. Deletions are only made after the approver accepts them",
+  {
+    dry_run: z.boolean().default(false).describe("Only report what would be stopped or deleted")
+  },
+  async ({ dry_run }) => {
+    const { policy, error } = await loadJanitorPolicy();
+    if (error) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: "No active codespaces found for codespace-executor repo",
+            text: `❌ ${error}. Fix or reset it with 'configure-codespace-janitor'.`,
           },
         ],
       };
     }
 
-    // Use the first active codespace
-    const firstCodespace = codespacesResponse.codespaces[0];
-
-    // Delete the codespace
-    const deleteResponse = await deleteCodespace({
-      codespaceName: firstCodespace.name,
-      token: githubPatToken
+    const report = await runCodespaceJanitor({
+      token: githubPatToken,
+      requestDeletionApproval: requestCodespaceDeletionApproval,
+      trigger: 'manual',
+      dryRun: dry_run,
+      policy,
+      protectedCodespaces: listSelectedCodespaces()
     });
 
-    // Check if deleting codespace failed
-    if (!deleteResponse.success) {
+    return {
+      ...(report.success ? {} : { isError: true }),
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(report, null, 2),
+        },
+      ],
+    };
+  },
+);
+
+
+server.tool(
+  "codespace-usage-report",
+  "Estimate how much compute and storage executor codespaces have used, per codespace, per day and per template, from the codespace list and the executions recorded in the audit log. Returns JSON or CSV",
+  {
+    days: z.number().int().min(1).max(365).default(30).describe("How many days back to report on"),
+    format: z.enum(["json", "csv"]).default("json").describe("Output format")
+  },
+  async ({ days, format }) => {
+    const report = await buildCodespaceUsageReport({ token: githubPatToken, days });
+
+    if (!report.success) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: `Error deleting codespace ${firstCodespace.name}: ${deleteResponse.error?.message || 'Unknown error'}`,
+            text: `Error building codespace usage report: ${report.error?.message || 'Unknown error'}`,
           },
         ],
       };
@@ -1101,13 +2401,7 @@ server.tool(
       content: [
         {
           type: "text",
-          text: JSON.stringify({
-            codespace_deleted: {
-              name: firstCodespace.name,
-              web_url: firstCodespace.web_url
-            },
-            delete_result: deleteResponse
-          }, null, 2),
+          text: format === "csv" ? usageReportToCsv(report) : JSON.stringify(report, null, 2),
         },
       ],
     };
@@ -1117,29 +2411,31 @@ server.tool(
 
 server.tool(
   "plan",
-  "This should be the first tool you call when you are start tackling a new task. It will create a planning token that can be used ONCE in the evaluate step. Each evaluation requires a new planning token.",
+  "This should be the first tool you call when you are start tackling a new task. Describe the task and the ordered steps you intend to take, with the resources each step uses. The plan is shown to the approver and returns a planning token; pass it with the step number to 'evaluate' once per step. A rejected step can be evaluated again.",
   {
+    task: z.string().min(1).describe("What the user asked for, in one or two sentences"),
+    steps: z.array(PlanStepInputSchema).max(MAX_PLAN_STEPS).optional().describe("Ordered steps you intend to take. Each step is evaluated separately; leave out for a task done in a single step"),
     context_or_documentation_helpful: z.boolean().describe("Whether the task is complex/unknown and would benefit from web research for context or documentation"),
-    researched_web_context: z.boolean().describe("Whether web research has already been conducted for this task")
+    researched_web_context: z.boolean().describe("Whether web research has already been conducted for this task"),
+    backend: backendParameter,
+    codespace_name: codespaceNameParameter
   },
-  async ({ context_or_documentation_helpful, researched_web_context }) => {
-    const defaultUserId = "keyboard-mcp-user";
-    
-    // Generate planning token
-    const planningToken = generatePlanningToken(defaultUserId);
+  async ({ task, steps, context_or_documentation_helpful, researched_web_context, backend, codespace_name }, extra) => {
+    const sessionId = resolveSessionId(extra.sessionId);
 
     const instructions = {
       "GENERAL_WORKFLOW": [
-        "pre-requisites: have a codespace available to you",
-        "1. Use the plan tool to create a planning token",
-        "2. Use the evaluate tool to evaluate the code (consumes the planning token)",
+        "pre-requisites: have a codespace (or a configured local executor) available to you",
+        "1. Use the plan tool to describe the task and its steps and get a planning token",
+        "2. Use the evaluate tool to evaluate the code for one step (pass the planning token and the step number)",
         "3. Use the execute tool to execute the code",
-        "4. For each new evaluation, create a new planning token"
+        "4. Repeat 2 and 3 for each remaining step; create a new plan for new work"
       ],
       "CRITICAL_TOOL_INSTRUCTIONs":[
-        "When using the evaluate tool you must have a planning token",
+        "When using the evaluate tool you must have a planning token and say which step the code carries out",
         "When using the execute tool you must have an execution token",
-        "Each planning token can only be used ONCE - create a new one for each evaluation",
+        "Each step can be evaluated ONCE unless the approver rejects it; the planning token is used up when every step is approved",
+        "When the code for several steps is known up front, use the evaluate-batch tool to submit them in one approval request",
         "Determine the resources available to you for example if the users asks you do something in SaaS app but you lack the credentials to do so, mention that to the user"
       ], 
       "codeGuidelines": [
@@ -1164,68 +2460,44 @@ server.tool(
       ]
     }
     
-    let codespaceStatus = {
-      available: false,
-      count: 0,
-      message: "Failed to check codespace status",
-      activeCodespaces: []
-    }
-    
-    try {
-      const codespacesResponse = await listActiveCodespacesForRepo({
-        token: githubPatToken
-      });
-
-      if (codespacesResponse.success) {
-        codespaceStatus = {
-          available: codespacesResponse.codespaces.length > 0,
-          count: codespacesResponse.codespaces.length,
-          message: codespacesResponse.codespaces.length > 0
-            ? `${codespacesResponse.codespaces.length} active codespace(s) available for code execution`
-            : "No active codespaces found. Use 'create-github-codespace' tool to create one.  After that make sure to use the fetch-environment-and-resources tool to get the environment variables and resources available to you before you write and execute the code",
-          activeCodespaces: codespacesResponse.codespaces.map((cs: any) => ({
-            name: cs.name,
-            state: cs.state,
-            web_url: cs.web_url,
-            created_at: cs.created_at,
-            last_used_at: cs.last_used_at
-          }))
-        };
-      } else {
-        codespaceStatus.message = `Error checking codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`;
-      }
-    } catch (error) {
-      codespaceStatus.message = `Error checking codespaces: ${error instanceof Error ? error.message : 'Unknown error'}`;
-    }
+    const executionBackend = getExecutionBackend(backend);
+    const resolvedTarget = await resolveExecutionTarget(executionBackend, codespace_name, extra);
 
-    // Throw MCP error if no active codespaces are available
-    if (!codespaceStatus.available) {
+    // Throw MCP error if no execution target is available
+    if (!resolvedTarget.success || !resolvedTarget.target) {
       return {
         isError: true,
         content: [
           {
             type: "text",
-            text: "❌ CODESPACE ERROR: No active GitHub codespaces found. Please use the 'create-github-codespace' tool to create one before running security evaluation."
+            text: `❌ EXECUTION BACKEND ERROR: ${resolvedTarget.error?.message || 'Failed to resolve execution backend'}`
           }
         ]
       };
     }
 
-    let activeCodespace = codespaceStatus.activeCodespaces[0];
-    let codespacesPortUrl = generateCodespacePortUrl(activeCodespace, 3000);
-    
-    // Create plan object
-    const resources = await fetchKeyNameAndResources({ codespaceUrl: codespacesPortUrl, githubPatToken });
-    const plan = {
+    const executionTarget = resolvedTarget.target;
+
+    // Create and store the plan
+    const resources = await fetchKeyNameAndResources({ codespaceUrl: executionTarget.url, githubPatToken: executionTarget.token });
+    const plan = createTaskPlan({
+      task,
+      steps,
       researchCompleted: researched_web_context,
       contextResearchRequired: context_or_documentation_helpful,
-      createdAt: new Date().toISOString(),
-      generalGuidelinesAndInstructionsUsingThisToolSystem: instructions,
-      status: 'planned'
-    };
-    
-    // Store the plan
-    executionCodeCollection[defaultUserId][planningToken].plan = plan;
+      codespace: { backend: executionBackend.id, name: executionTarget.name }
+    });
+    const planningEntry = createPlanningToken(sessionId, planningTokenTtlSeconds, plan);
+    const planningToken = planningEntry.token;
+
+    await recordAuditEvent('plan_created', {
+      planningToken,
+      planId: plan.planId,
+      task: plan.task,
+      steps: plan.steps.map(step => ({ number: step.number, description: step.description, resources: step.resources })),
+      researchCompleted: researched_web_context,
+      contextResearchRequired: context_or_documentation_helpful
+    });
 
     if (context_or_documentation_helpful && !researched_web_context) {
       return {
@@ -1242,6 +2514,9 @@ server.tool(
         ]
       };
     }
+
+    // Let the approver see the whole task before the first step arrives for review
+    wsManager?.send(formatPlanForApprover(plan), 'Task Plan');
     
     return {
       content: [
@@ -1252,9 +2527,11 @@ server.tool(
             availableResources: resources,
             planningToken: planningToken,
             plan: plan,
+            generalGuidelinesAndInstructionsUsingThisToolSystem: instructions,
             tokenInfo: {
-              singleUse: true,
-              message: "This planning token can be used ONCE for evaluation. Create a new planning token for each evaluation."
+              steps: plan.steps.length,
+              expiresAt: planningEntry.expiresAt,
+              message: "Pass this planning token and a step number to 'evaluate' for each step. Each step can be evaluated once unless it is rejected; the token is used up when every step is approved. Evaluating a step starts the expiry window over."
             }
           }, null, 2)
         }
@@ -1266,55 +2543,31 @@ server.tool(
 server.tool(
   "initialize-llm",
   "Initialize the Local LLM service (Ollama with Gemma model) on the active codespace. This should be run before performing code analysis.",
-  async () => {
+  {
+    codespace_name: codespaceNameParameter
+  },
+  async ({ codespace_name }, extra) => {
     try {
-      // First, get active codespaces to determine the codespace URL
-      const codespacesResponse = await listActiveCodespacesForRepo({
-        token: githubPatToken
-      });
-
-      if (!codespacesResponse.success) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Failed to fetch active codespaces: ${codespacesResponse.error?.message || 'Unknown error'}`,
-            },
-          ],
-        };
-      }
+      // The LLM runs inside a codespace, whatever the default execution backend is
+      const resolvedTarget = await resolveExecutionTarget(getExecutionBackend('codespace'), codespace_name, extra);
 
-      if (codespacesResponse.codespaces.length === 0) {
+      if (!resolvedTarget.success || !resolvedTarget.target) {
         return {
           isError: true,
           content: [
             {
               type: "text",
-              text: "No active codespaces found for codespace-executor repo. Please create a codespace first.",
+              text: resolvedTarget.error?.message || 'Failed to resolve codespace',
             },
           ],
         };
       }
 
-      // Use the first active codespace
-      const firstCodespace = codespacesResponse.codespaces[0];
-      const codespacePortUrl = generateCodespacePortUrl(firstCodespace, 3000);
-
-      if (codespacePortUrl.startsWith('Error')) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error generating codespace URL: ${codespacePortUrl}`,
-            },
-          ],
-        };
-      }
+      const codespace = resolvedTarget.target;
+      const codespacePortUrl = codespace.url;
 
       // Initialize the Local LLM service
-      const initResult = await initializeLocalLLM(codespacePortUrl, githubPatToken);
+      const initResult = await initializeLocalLLM(codespacePortUrl, codespace.token);
 
       if (!initResult.success) {
         return {
@@ -1336,7 +2589,7 @@ server.tool(
               success: true,
               message: "✅ Local LLM service initialized successfully",
               codespace_used: {
-                name: firstCodespace.name,
+                name: codespace.name,
                 url: codespacePortUrl
               },
               initialization_result: initResult
@@ -1366,8 +2619,7 @@ server.tool(
   async ({ name, description, schema, script, tags = [] }) => {
     try {
       let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
+        "type": "request-token"
       }, 3000)
 
       let token = tokens.token;
@@ -1399,6 +2651,7 @@ server.tool(
               success: true,
               id: result.id,
               message: "Script template saved successfully",
+              ...(result.warning ? { warning: result.warning } : {}),
               name,
               description,
               variables: script.match(/\{\{\s*(\w+)\s*\}\}/g) || [],
@@ -1429,8 +2682,7 @@ server.tool(
     try {
       const defaultUserId = "keyboard-mcp-user";
       let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
+        "type": "request-token"
       }, 3000)
 
       let token = tokens.token;
@@ -1478,8 +2730,7 @@ server.tool(
     try {
       const defaultUserId = "keyboard-mcp-user";
       let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
+        "type": "request-token"
       }, 3000)
       let token = tokens.token;
       const result = await listScriptTemplates(token, tags);
@@ -1538,8 +2789,7 @@ server.tool(
       if (tags !== undefined) updates.tags = tags;
 
       let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
+        "type": "request-token"
       }, 3000)
       let token = tokens.token;
       const result = await updateScriptTemplate(id, token, updates);
@@ -1564,6 +2814,7 @@ server.tool(
               success: true,
               message: "Script template updated successfully",
               id,
+              version: result.version,
               updates
             }, null, 2),
           },
@@ -1591,8 +2842,7 @@ server.tool(
     try {
       const defaultUserId = "keyboard-mcp-user";
       let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
+        "type": "request-token"
       }, 3000)
       let token = tokens.token;
       const result = await deleteScriptTemplate(id, token);
@@ -1627,7 +2877,203 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `❌ Error deleting script template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `❌ Error deleting script template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+server.tool(
+  "search-script-templates",
+  "Search script templates by name or description",
+  SearchScriptsSchema,
+  async ({ searchTerm }) => {
+    try {
+      const defaultUserId = "keyboard-mcp-user";
+      let tokens = await wsManager?.sendAndWaitForTokenResponse({
+        "type": "request-token"
+      }, 3000)
+      let token = tokens.token;
+      const result = await searchScriptTemplates(token, searchTerm);
+
+      if (!result.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Error searching script templates: ${result.error}`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              searchTerm,
+              count: result.scripts?.length || 0,
+              scripts: result.scripts || []
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error searching script templates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+server.tool(
+  "list-script-template-versions",
+  "List the immutable version history of a script template",
+  ListScriptVersionsSchema,
+  async ({ id }) => {
+    try {
+      const result = await listScriptTemplateVersions(id);
+
+      if (!result.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Error listing script template versions: ${result.error}`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              id,
+              count: result.versions?.length || 0,
+              versions: result.versions || []
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error listing script template versions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+server.tool(
+  "diff-script-template-versions",
+  "Show what changed between two versions of a script template",
+  DiffScriptVersionsSchema,
+  async ({ id, fromVersion, toVersion }) => {
+    try {
+      const result = await diffScriptTemplateVersions(id, fromVersion, toVersion);
+
+      if (!result.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Error diffing script template versions: ${result.error}`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              ...result.diff
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error diffing script template versions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+server.tool(
+  "rollback-script-template",
+  "Restore a script template to a previous version. The rollback is recorded as a new version",
+  RollbackScriptSchema,
+  async ({ id, version }) => {
+    try {
+      let tokens = await wsManager?.sendAndWaitForTokenResponse({
+        "type": "request-token"
+      }, 3000)
+      let token = tokens.token;
+      const result = await rollbackScriptTemplate(id, token, version);
+
+      if (!result.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Error rolling back script template: ${result.error}`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              message: `Script template restored to version ${version}`,
+              id,
+              restoredFrom: version,
+              newVersion: result.version
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error rolling back script template: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
       };
@@ -1636,40 +3082,69 @@ server.tool(
 );
 
 server.tool(
-  "search-script-templates",
-  "Search script templates by name or description",
-  SearchScriptsSchema,
-  async ({ searchTerm }) => {
+  "set-script-template-trust",
+  "Configure whether a script template's approved content may run with a lightweight confirm, or always needs full review. Tightening applies at once; switching back to 'trust-approved-content' needs the approver",
+  {
+    id: z.string().min(1, "Script ID is required"),
+    mode: z.enum(['trust-approved-content', 'always-review']).optional().describe("'trust-approved-content' allows a lightweight confirm for previously approved content; 'always-review' requires full approval every time"),
+    revoke_approvals: z.boolean().default(false).describe("Forget every previously approved content hash for this template")
+  },
+  async ({ id, mode, revoke_approvals }) => {
     try {
-      const defaultUserId = "keyboard-mcp-user";
-      let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
-      }, 3000)
-      let token = tokens.token;
-      const result = await searchScriptTemplates(token, searchTerm);
+      // The agent must not be able to lift a review requirement on its own
+      const loosening = mode === 'trust-approved-content' && (await getTemplateTrust(id)).mode !== mode;
+      if (loosening) {
+        if (!wsManager) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: "❌ WEBSOCKET ERROR: WebSocket not connected. Trusting approved content again needs the approver; use the 'connect-websocket' tool first."
+              }
+            ]
+          };
+        }
 
-      if (!result.success) {
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `❌ Error searching script templates: ${result.error}`,
-            },
-          ],
+        const approvalMessage = {
+          id: `approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          title: "Trust approved template content?",
+          body: `The agent asked to let previously approved content of script template ${id} run with a lightweight confirm instead of a full review every time.`,
+          timestamp: Date.now(),
+          priority: 'normal',
+          sender: 'MCP Security System',
+          status: 'pending',
+          requiresResponse: true,
+          templateId: id
         };
+        const decision = describeApprovalDecision(await wsManager.sendAndWaitForApproval(approvalMessage, APPROVAL_TIMEOUT_MS));
+        if (decision.status !== 'approved') {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  success: false,
+                  message: "Trusting approved content again was not approved",
+                  approvalResponse: decision
+                }, null, 2)
+              }
+            ]
+          };
+        }
       }
 
+      const trust = await setTemplateTrust(id, { mode, revokeApprovals: revoke_approvals });
+
       return {
         content: [
           {
             type: "text",
             text: JSON.stringify({
               success: true,
-              searchTerm,
-              count: result.scripts?.length || 0,
-              scripts: result.scripts || []
+              message: "Script template trust updated",
+              trust
             }, null, 2),
           },
         ],
@@ -1680,7 +3155,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `❌ Error searching script templates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `❌ Error updating script template trust: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
       };
@@ -1697,8 +3172,7 @@ server.tool(
       const defaultUserId = "keyboard-mcp-user";
       // First, get the script template
       let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
+        "type": "request-token"
       }, 3000)
       let token = tokens.token;
       const templateResult = await getScriptTemplate(id, token);
@@ -1718,7 +3192,7 @@ server.tool(
       const script = templateResult.script!;
       
       // Interpolate the template
-      const interpolated = interpolateScript(script.script, variables);
+      const interpolated = interpolateScript(script.script, variables, script.schema);
 
       return {
         content: [
@@ -1754,53 +3228,260 @@ server.tool(
 
 server.tool(
   "evaluate_using_shortcut",
-  "Evaluate a saved script template by interpolating it with provided variables. This bypasses the planning token requirement and directly creates an execution token for the interpolated script.",
+  "Evaluate a saved script template by interpolating it with provided variables. This bypasses the planning token requirement. Templates whose exact content was approved before only need the variables confirmed; new or modified templates go through the full approval flow.",
   {
     script_id: z.string().describe("ID of the saved script template to use"),
     variables: z.record(z.string(), z.any()).describe("Variables to interpolate into the script template"),
-    explanation_of_usage: z.string().describe("A brief explanation of how you're using this script and what it will accomplish")
+    explanation_of_usage: z.string().describe("A brief explanation of how you're using this script and what it will accomplish"),
+    version: z.number().int().positive().optional().describe("Pin execution to a specific recorded version of the template instead of its current content"),
+    backend: backendParameter,
+    codespace_name: codespaceNameParameter,
+    timeout_seconds: timeoutParameter
   },
-  async ({ script_id, variables, explanation_of_usage }) => {
+  async ({ script_id, variables, explanation_of_usage, version, backend, codespace_name, timeout_seconds }, extra) => {
+    const sessionId = resolveSessionId(extra.sessionId);
+    let pendingToken: string | undefined; // Set once a token has been created, until it is decided
+    const timeoutSeconds = timeout_seconds ?? defaultExecutionTimeoutSeconds;
     try {
-      const defaultUserId = "keyboard-mcp-user";
       
       // Get the script template
       let tokens = await wsManager?.sendAndWaitForTokenResponse({
-        "type": "request-token",
-        "requestId": "optional-unique-id"
+        "type": "request-token"
       }, 3000)
       let token = tokens.token;
-      const templateResult = await getScriptTemplate(script_id, token);
-      if (!templateResult.success) {
+      let script;
+      if (version !== undefined) {
+        // Pinned: run the recorded snapshot, whatever the template looks like now
+        const versionResult = await getScriptTemplateVersion(script_id, version);
+        if (!versionResult.success) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: `❌ Error retrieving script template version: ${versionResult.error}`,
+              },
+            ],
+          };
+        }
+        script = versionResult.version!.template;
+      } else {
+        const templateResult = await getScriptTemplate(script_id, token);
+        if (!templateResult.success) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: `❌ Error retrieving script template: ${templateResult.error}`,
+              },
+            ],
+          };
+        }
+        script = templateResult.script!;
+      }
+
+      const templateHash = computeTemplateHash(script);
+      const knownVersions = (await listScriptTemplateVersions(script_id)).versions || [];
+      const templateVersion = version ?? [...knownVersions].reverse().find(entry => entry.contentHash === templateHash)?.version ?? null;
+      
+      // Interpolate the template with variables
+      const interpolated = interpolateScript(script.script, variables, script.schema);
+
+      // Shortcuts skip the approver, but local deny rules still apply to them
+      const policyEvaluation = await evaluatePolicy({ code: interpolated.interpolated, templateId: script_id });
+      if (policyEvaluation.decision === 'deny') {
         return {
           isError: true,
           content: [
             {
               type: "text",
-              text: `❌ Error retrieving script template: ${templateResult.error}`,
+              text: JSON.stringify({
+                success: false,
+                error: `❌ POLICY REJECTED: ${policyEvaluation.reason}`,
+                policyEvaluation
+              }, null, 2),
             },
           ],
         };
       }
-
-      const script = templateResult.script!;
-      
-      // Interpolate the template with variables
-      const interpolated = interpolateScript(script.script, variables);
       
+      if (!wsManager) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: "❌ WEBSOCKET ERROR: WebSocket not connected. Please use the 'connect-websocket' tool to establish connection before evaluating a script template."
+            }
+          ]
+        };
+      }
+
+      // The approval is bound to where the script will run, so resolve that before asking
+      const executionBackend = getExecutionBackend(backend);
+      const resolvedTarget = await resolveExecutionTarget(executionBackend, codespace_name, extra);
+      if (!resolvedTarget.success || !resolvedTarget.target) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ EXECUTION BACKEND ERROR: ${resolvedTarget.error?.message || 'Failed to resolve execution backend'}`
+            }
+          ]
+        };
+      }
+      const executionTarget = resolvedTarget.target;
+
       // Generate execution token for the interpolated script
-      const executionToken = generateExecutionToken(defaultUserId);
+      const executionToken = createExecutionToken(sessionId, pendingTokenTtlSeconds()).token;
+      pendingToken = executionToken;
+      const explanation = `${explanation_of_usage}\n\nUsing script template: ${script.name}\nDescription: ${script.description}`;
+
+      await recordAuditEvent('evaluate_submitted', {
+        executionToken,
+        backend: executionBackend.id,
+        codespace: executionTarget.name,
+        templateId: script_id,
+        templateVersion,
+        templateHash,
+        code: interpolated.interpolated,
+        explanation_of_code: explanation
+      });
+
+      // Content the approver has already reviewed only needs the variables confirmed
+      const trustedContent = await isTemplateContentTrusted(script_id, templateHash);
+      const variablesSummary = Object.entries(variables).map(([key, value]) => `- ${key}: ${JSON.stringify(value)}`).join('\n') || '- (none)';
+      const templateLabel = `${script.name}${templateVersion !== null ? ` (v${templateVersion})` : ''}`;
+      let approvalMessage;
+
+      if (trustedContent) {
+        approvalMessage = {
+          id: `shortcut-confirm-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          title: "Shortcut Confirmation",
+          body: `Run previously approved script template ${templateLabel} with these variables?\n\n${variablesSummary}\n\nRuns on: ${executionTarget.name}\nWall-clock limit: ${timeoutSeconds} seconds\n\nUsage: ${explanation_of_usage}`,
+          timestamp: Date.now(),
+          priority: "normal" as const,
+          sender: "MCP Security System",
+          status: 'pending' as const,
+          templateId: script_id,
+          templateHash,
+          variables,
+          code: interpolated.interpolated,
+          timeoutSeconds,
+          shortcutConfirm: true,
+          requiresResponse: true
+        };
+      } else {
+        const staticAnalysis = analyzeCodeStatically(interpolated.interpolated);
+        approvalMessage = {
+          id: `evaluate-approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          title: "Security Evaluation Request",
+          body: `Script template ${templateLabel} has not been approved in its current form.
+
+Execution Token: ${executionToken}
+
+Variables:
+${variablesSummary}
+
+Runs on: ${executionTarget.name}
+
+Wall-clock Limit: ${timeoutSeconds} seconds (the run is cancelled after this)
+
+Static Analysis (threat level: ${staticAnalysis.threat_level}):
+${staticAnalysis.security_issues?.length ? staticAnalysis.security_issues.map(issue => `- ${issue}`).join('\n') : '- No findings'}
+
+Code to be executed: ${interpolated.interpolated}
+
+Explaination of code: ${explanation}
+
+Approving also trusts this exact template content for future runs.`,
+          timestamp: Date.now(),
+          priority: "normal" as const,
+          sender: "MCP Security System",
+          status: 'pending' as const,
+          code: interpolated.interpolated,
+          explaination: explanation,
+          templateId: script_id,
+          templateHash,
+          variables,
+          staticAnalysis,
+          policyEvaluation,
+          timeoutSeconds,
+          codeEval: true,
+          requiresResponse: true
+        };
+      }
+
+      console.error(`🔔 Sending ${trustedContent ? 'shortcut confirmation' : 'evaluation approval'} request`);
+
+      const approvalResponse = await wsManager.sendAndWaitForApproval(
+        approvalMessage,
+        APPROVAL_TIMEOUT_MS
+      );
+      const approved = approvalResponse?.status === 'approved';
+
+      await recordAuditEvent('evaluate_decision', {
+        executionToken,
+        ...describeApprovalDecision(approvalResponse),
+        reviewType: trustedContent ? 'shortcut_confirm' : 'full_review'
+      });
+
+      if (!approved) {
+        discardExecution(sessionId, executionToken);
+        pendingToken = undefined;
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                message: "Script template execution was not approved",
+                scriptTemplate: {
+                  id: script_id,
+                  name: script.name,
+                  version: templateVersion
+                },
+                reviewType: trustedContent ? 'shortcut_confirm' : 'full_review',
+                approvalResponse
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      if (!trustedContent) {
+        await trustTemplateContent(script_id, templateHash, templateVersion);
+      }
       
-      // Store the interpolated code in the execution collection
-      executionCodeCollection[defaultUserId][executionToken] = {
-        status: 'approved',
+      // Store the interpolated code with the session's approved executions
+      const approvedExecution = approveExecution(sessionId, executionToken, {
         code: interpolated.interpolated,
-        explanation: `${explanation_of_usage}\n\nUsing script template: ${script.name}\nDescription: ${script.description}`,
-        timestamp: new Date().toISOString(),
-        templateId: script_id,
-        templateName: script.name,
-        variables: variables
-      };
+        explanation,
+        template: {
+          templateId: script_id,
+          templateName: script.name,
+          templateVersion,
+          templateHash,
+          variables: variables
+        },
+        timeoutSeconds,
+        backend: executionBackend.id,
+        codespaceName: executionTarget.name,
+        grant: createExecutionGrant({
+          token: executionToken,
+          code: interpolated.interpolated,
+          backend: executionBackend.id,
+          codespaceName: executionTarget.name,
+          decision: { status: 'approved', decidedBy: 'approver', approvalId: approvalMessage.id },
+          ttlSeconds: executionTokenTtlSeconds
+        })
+      });
+      if (!approvedExecution) {
+        return lostApprovalResult(executionToken);
+      }
+      pendingToken = undefined;
 
       return {
         content: [
@@ -1808,19 +3489,26 @@ server.tool(
             type: "text",
             text: JSON.stringify({
               success: true,
-              message: "✅ Script template evaluated and execution token generated",
+              message: "✅ Script template approved and execution token generated",
               executionToken: executionToken,
+              executionTokenExpiresAt: approvedExecution?.grant?.expiresAt,
+              codespace: { backend: executionBackend.id, name: executionTarget.name },
               scriptTemplate: {
                 id: script_id,
                 name: script.name,
                 description: script.description,
-                tags: script.tags
+                tags: script.tags,
+                version: templateVersion,
+                pinned: version !== undefined
               },
+              reviewType: trustedContent ? 'shortcut_confirm' : 'full_review',
+              executionTimeoutSeconds: timeoutSeconds,
               interpolatedCode: interpolated.interpolated,
               variables: variables,
               explanation: explanation_of_usage,
+              approvalResponse,
               instructions: [
-                "Your script has been evaluated and is ready for execution",
+                "Your script has been approved and is ready for execution",
                 `Use the execution token '${executionToken}' with the 'execute' tool`,
                 "This bypassed the planning phase since you used a pre-saved script template"
               ]
@@ -1829,6 +3517,15 @@ server.tool(
         ],
       };
     } catch (error) {
+      // Same as 'evaluate': a token whose approval failed or timed out is not left behind
+      if (pendingToken) {
+        discardExecution(sessionId, pendingToken);
+        await recordAuditEvent('evaluate_decision', {
+          executionToken: pendingToken,
+          status: 'failed',
+          feedback: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+      }
       return {
         isError: true,
         content: [
@@ -1842,12 +3539,184 @@ server.tool(
   }
 );
 
+server.tool(
+  "query-audit-log",
+  "Query the local tamper-evident audit log of plan/evaluate/execute cycles and optionally verify its hash chain",
+  {
+    event: z.enum(['plan_created', 'evaluate_submitted', 'evaluate_decision', 'execute_started', 'execute_result', 'execute_refused', 'codespace_stopped', 'codespace_deleted']).optional().describe("Only return entries of this event type"),
+    token: z.string().optional().describe("Only return entries referencing this planning or execution token"),
+    since: z.string().optional().describe("Only return entries at or after this ISO 8601 timestamp"),
+    limit: z.number().int().positive().default(50).describe("Maximum number of most recent matching entries to return"),
+    verify_chain: z.boolean().default(true).describe("Whether to verify the hash chain of the entire log")
+  },
+  async ({ event, token, since, limit, verify_chain }) => {
+    try {
+      const result = await queryAuditLog({ event, token, since, limit });
+
+      if (!result.success) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Error querying audit log: ${result.error.message || 'Unknown error'}`,
+            },
+          ],
+        };
+      }
+
+      const verification = verify_chain ? await verifyAuditLog() : null;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              ...result,
+              verification
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error reading audit log at ${getAuditLogPath()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+server.tool(
+  "list-encryption-keys",
+  "List the local encryption key ids (never the key material) and which one is active for new payloads",
+  async () => {
+    try {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              localEncryption: process.env.LOCAL_ENCRYPTION === 'true',
+              keys: listEncryptionKeys()
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error listing encryption keys: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+server.tool(
+  "rotate-encryption-key",
+  "Generate a new local encryption key and make it active once the approver agrees. Older keys are kept so existing payloads still decrypt",
+  async () => {
+    if (!wsManager) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: "❌ WEBSOCKET ERROR: WebSocket not connected. Key rotation needs the approver; use the 'connect-websocket' tool first."
+          }
+        ]
+      };
+    }
+
+    try {
+      const approvalMessage = {
+        id: `approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        title: "Rotate encryption key?",
+        body: "The agent asked to generate a new local encryption key and make it active for new payloads. Older keys are kept for decryption.",
+        timestamp: Date.now(),
+        priority: 'normal',
+        sender: 'MCP Security System',
+        status: 'pending',
+        requiresResponse: true
+      };
+      const approvalResponse = await wsManager.sendAndWaitForApproval(approvalMessage, 300000);
+      const decision = describeApprovalDecision(approvalResponse);
+      if (decision.status !== 'approved') {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                message: "Key rotation was not approved",
+                approvalResponse: decision
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      const rotation = rotateEncryptionKey();
 
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              message: "Encryption key rotated successfully",
+              ...rotation,
+              note: "If the executor decrypts payloads itself, provision the new key there before the next execution"
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Error rotating encryption key: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+      };
+    }
+  }
+);
 
 async function main() {
+  if (stateStoreMode === 'file') {
+    const restore = initializeStateStore();
+    if (restore.error) {
+      console.error(`⚠️ ${restore.error}`);
+    }
+    if (restore.restored) {
+      console.error(`💾 Restored ${restore.pendingExecutions} pending execution(s) and ${restore.jobs} job(s) from ${restore.path}`);
+    }
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Weather MCP Server running on stdio");
+
+  startCodespaceJanitor({
+    token: githubPatToken,
+    requestDeletionApproval: requestCodespaceDeletionApproval,
+    getProtectedCodespaces: listSelectedCodespaces
+  });
 }
 
 main().catch((error) => {
@@ -1,5 +1,17 @@
 import { z } from 'zod';
 import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Ajv2020, type ErrorObject } from 'ajv/dist/2020.js';
+import addFormatsPlugin from 'ajv-formats';
+import { encrypt, decrypt } from './encryption.js';
+
+// Template versions are kept locally (encrypted) since the approver API overwrites in place
+const getVersionsDir = () => {
+  return process.env.SCRIPT_VERSIONS_DIR || path.join(os.homedir(), '.keyboard-mcp', 'script-versions');
+};
 
 // Get API URL - always use local server
 const getApiUrl = () => {
@@ -37,16 +49,25 @@ async function makeAuthenticatedRequest(
   }
 }
 
-// Schema definition for script inputs
+// Any JSON Schema (draft 2020-12) keyword: minLength, pattern, format, properties, items, ...
+export type JsonSchema = { [keyword: string]: any };
+
+export type ScriptInputType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+// Schema definition for script inputs. Each field is a JSON Schema plus two shorthands:
+// `required: true` and `options` (compiled to the object's `required` list and `enum`)
 export interface ScriptInputSchema {
-  [key: string]: {
-    type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  [key: string]: JsonSchema & {
+    type: ScriptInputType;
     description: string;
     title: string;
     required?: boolean;
     default?: any;
     options?: string[]; // For enum-like inputs
-    items?: ScriptInputSchema; // For array/object types
+    items?: JsonSchema; // Element schema for array types
+    // 'literal' (default) emits the value as an escaped JS literal for its position;
+    // 'raw' splices String(value) into the code unescaped
+    interpolation?: 'literal' | 'raw';
   };
 }
 
@@ -63,45 +84,168 @@ export interface ScriptTemplate {
   updatedAt?: string;
 }
 
+// Immutable snapshot of a template, recorded on every save, update and rollback
+export interface ScriptTemplateVersion {
+  templateId: string;
+  version: number;
+  contentHash: string;
+  createdAt: string;
+  source: 'created' | 'baseline' | 'updated' | 'rollback';
+  rolledBackFrom?: number;
+  template: Omit<ScriptTemplate, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+}
+
+interface StoredScriptTemplateVersion extends Omit<ScriptTemplateVersion, 'template'> {
+  template: string; // encrypted JSON snapshot
+}
+
+export interface ScriptDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
 export interface ExecutableScript {
   script: string;
   inputs: Record<string, any>;
   interpolated: string;
 }
 
-// Script interpolation function - now works with schema-based inputs
-export function interpolateScript(script: string, inputs: Record<string, any>): ExecutableScript {
-    let interpolated = script;
-    
-    for (const [key, value] of Object.entries(inputs)) {
-      const regex = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g');
-      
-      let serializedValue: string;
-      
-      // Check if the variable is being used in a JavaScript context
-      const matches = script.match(new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g'));
-      if (matches) {
-        // Look at the surrounding context to determine how to serialize
-        const contextRegex = new RegExp(`[\\w\\s]*:\\s*\\{\\{\\s*${key}\\s*\\}\\}`, 'g');
-        const isInObjectContext = contextRegex.test(script);
-        
-        if (typeof value === 'string' && !isInObjectContext) {
-          serializedValue = value;
-        } else if (typeof value === 'object' || Array.isArray(value)) {
-          serializedValue = JSON.stringify(value, null, 2);
-        } else {
-          serializedValue = String(value);
-        }
-      } else {
-        serializedValue = typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
-      }
-      
-      interpolated = interpolated.replace(regex, serializedValue);
+type PlaceholderContext = 'code' | 'single' | 'double' | 'template' | 'lineComment' | 'blockComment';
+
+interface Placeholder {
+  name: string;
+  start: number;
+  end: number;
+  context: PlaceholderContext;
+}
+
+const PLACEHOLDER_AT = /^\{\{\s*(\w+)\s*\}\}/;
+
+// Scans the template like a JS tokenizer so each {{var}} knows whether it sits in code,
+// inside a string/template literal or inside a comment
+function findPlaceholders(script: string): Placeholder[] {
+  const placeholders: Placeholder[] = [];
+  // 'brace' marks a plain block, 'templateExpr' a ${ } inside a template literal
+  const stack: ('brace' | 'templateExpr')[] = [];
+  let context: PlaceholderContext = 'code';
+  let i = 0;
+
+  while (i < script.length) {
+    const match = script[i] === '{' ? script.slice(i).match(PLACEHOLDER_AT) : null;
+    if (match) {
+      placeholders.push({ name: match[1], start: i, end: i + match[0].length, context });
+      i += match[0].length;
+      continue;
+    }
+
+    const char = script[i];
+    const next = script[i + 1];
+    switch (context) {
+      case 'code':
+        if (char === '/' && next === '/') { context = 'lineComment'; i++; }
+        else if (char === '/' && next === '*') { context = 'blockComment'; i++; }
+        else if (char === "'") context = 'single';
+        else if (char === '"') context = 'double';
+        else if (char === '`') context = 'template';
+        else if (char === '{') stack.push('brace');
+        else if (char === '}' && stack.pop() === 'templateExpr') context = 'template';
+        break;
+      case 'single':
+      case 'double':
+        if (char === '\\') i++;
+        else if (char === (context === 'single' ? "'" : '"') || char === '\n') context = 'code';
+        break;
+      case 'template':
+        if (char === '\\') i++;
+        else if (char === '`') context = 'code';
+        else if (char === '$' && next === '{') { stack.push('templateExpr'); context = 'code'; i++; }
+        break;
+      case 'lineComment':
+        if (char === '\n') context = 'code';
+        break;
+      case 'blockComment':
+        if (char === '*' && next === '/') { context = 'code'; i++; }
+        break;
+    }
+    i++;
+  }
+
+  return placeholders;
+}
+
+function toJsLiteral(value: any): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  return JSON.stringify(value);
+}
+
+function escapeForContext(value: any, context: PlaceholderContext): string {
+  if (context === 'code') return toJsLiteral(value);
+
+  const text = value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  switch (context) {
+    case 'double':
+      return JSON.stringify(text).slice(1, -1);
+    case 'single':
+      return JSON.stringify(text).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'");
+    case 'template':
+      return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+    case 'lineComment':
+      return text.replace(/[\r\n\u2028\u2029]+/g, ' ');
+    case 'blockComment':
+      return text.replace(/\*\//g, '* /');
+  }
+}
+
+function serializeRaw(value: any): string {
+  if (value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+}
+
+// Checks that the template and schema agree: every {{var}} is declared and every declared field is used
+export function validateTemplateVariables(script: string, schema: ScriptInputSchema = {}): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const used = extractVariables(script);
+
+  for (const name of used) {
+    if (!Object.prototype.hasOwnProperty.call(schema, name)) {
+      errors.push(`Template variable '{{${name}}}' is not declared in the schema`);
+    }
+  }
+  for (const name of Object.keys(schema)) {
+    if (!used.includes(name)) {
+      errors.push(`Schema field '${name}' is never used in the template`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// Script interpolation function - values are emitted as escaped JS for their position in the template
+export function interpolateScript(script: string, inputs: Record<string, any>, schema: ScriptInputSchema = {}): ExecutableScript {
+    const validation = validateInputs(inputs, schema);
+    const errors = [...validateTemplateVariables(script, schema).errors, ...validation.errors];
+
+    if (errors.length > 0) {
+      throw new Error(`Template interpolation failed: ${errors.join('; ')}`);
+    }
+
+    let interpolated = '';
+    let cursor = 0;
+    for (const placeholder of findPlaceholders(script)) {
+      const value = validation.value[placeholder.name];
+      interpolated += script.slice(cursor, placeholder.start);
+      interpolated += schema[placeholder.name]?.interpolation === 'raw'
+        ? serializeRaw(value)
+        : escapeForContext(value, placeholder.context);
+      cursor = placeholder.end;
     }
+    interpolated += script.slice(cursor);
     
     return {
       script,
-      inputs,
+      inputs: validation.value,
       interpolated
     };
   }
@@ -122,65 +266,289 @@ export function extractVariables(script: string): string[] {
 }
 
 // Validate inputs against schema
-export function validateInputs(inputs: Record<string, any>, schema: ScriptInputSchema): { valid: boolean; errors: string[] } {
+export interface InputValidationIssue {
+  path: string; // JSON pointer into the inputs, e.g. /repo/owner
+  keyword: string;
+  message: string;
+}
+
+const ajv = new Ajv2020({
+  allErrors: true,
+  useDefaults: true,
+  strictSchema: true,
+  strictTypes: false,
+  strictTuples: false,
+  strictRequired: false
+});
+// ajv-formats is CommonJS; under Node16 resolution its function sits on .default
+addFormatsPlugin.default(ajv);
+
+const compiledValidators = new Map<string, ReturnType<typeof ajv.compile>>();
+
+// Turns the per-field template schema into one object schema
+export function compileInputSchema(schema: ScriptInputSchema = {}): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, field] of Object.entries(schema)) {
+    const { required: isRequired, options, interpolation, ...jsonSchema } = field;
+    if (options && jsonSchema.enum === undefined) {
+      jsonSchema.enum = options;
+    }
+    if (isRequired) {
+      required.push(key);
+    }
+    properties[key] = jsonSchema;
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties,
+    required,
+    additionalProperties: false
+  };
+}
+
+function getInputValidator(schema: ScriptInputSchema) {
+  const compiled = compileInputSchema(schema);
+  const cacheKey = JSON.stringify(compiled);
+  let validator = compiledValidators.get(cacheKey);
+  if (!validator) {
+    validator = ajv.compile(compiled);
+    compiledValidators.set(cacheKey, validator);
+  }
+  return validator;
+}
+
+// Checks that a template's input schema is itself valid JSON Schema
+export function validateInputSchema(schema: ScriptInputSchema = {}): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
-  
-  // Check required fields
-  for (const [key, fieldSchema] of Object.entries(schema)) {
-    if (fieldSchema.required && (inputs[key] === undefined || inputs[key] === null)) {
-      errors.push(`Required field '${key}' is missing`);
-      continue;
+
+  for (const [key, field] of Object.entries(schema)) {
+    if (!field || typeof field !== 'object' || Array.isArray(field)) {
+      errors.push(`Schema field '${key}' must be an object`);
     }
-    
-    if (inputs[key] !== undefined && inputs[key] !== null) {
-      // Type validation
-      const value = inputs[key];
-      const expectedType = fieldSchema.type;
-      
-      switch (expectedType) {
-        case 'string':
-          if (typeof value !== 'string') {
-            errors.push(`Field '${key}' must be a string`);
-          }
-          break;
-        case 'number':
-          if (typeof value !== 'number') {
-            errors.push(`Field '${key}' must be a number`);
-          }
-          break;
-        case 'boolean':
-          if (typeof value !== 'boolean') {
-            errors.push(`Field '${key}' must be a boolean`);
-          }
-          break;
-        case 'array':
-          if (!Array.isArray(value)) {
-            errors.push(`Field '${key}' must be an array`);
-          }
-          break;
-        case 'object':
-          if (typeof value !== 'object' || Array.isArray(value)) {
-            errors.push(`Field '${key}' must be an object`);
-          }
-          break;
-      }
-      
-      // Options validation
-      if (fieldSchema.options && !fieldSchema.options.includes(String(value))) {
-        errors.push(`Field '${key}' must be one of: ${fieldSchema.options.join(', ')}`);
-      }
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const compiled = compileInputSchema(schema);
+  if (!ajv.validateSchema(compiled)) {
+    for (const error of ajv.errors || []) {
+      errors.push(`Schema ${error.instancePath.replace(/^\/properties/, '') || '/'}: ${error.message}`);
     }
+    return { valid: false, errors };
   }
-  
+
+  try {
+    getInputValidator(schema);
+  } catch (error) {
+    errors.push(`Schema could not be compiled: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
   return { valid: errors.length === 0, errors };
 }
 
+// Validates inputs against the template schema. `value` is a copy of the inputs with defaults applied
+export function validateInputs(inputs: Record<string, any>, schema: ScriptInputSchema): {
+  valid: boolean;
+  errors: string[];
+  issues: InputValidationIssue[];
+  value: Record<string, any>;
+} {
+  const value = structuredClone(inputs || {});
+  const schemaCheck = validateInputSchema(schema);
+  if (!schemaCheck.valid) {
+    return {
+      valid: false,
+      errors: schemaCheck.errors,
+      issues: schemaCheck.errors.map(message => ({ path: '', keyword: 'schema', message })),
+      value
+    };
+  }
+
+  const validator = getInputValidator(schema);
+  if (validator(value)) {
+    return { valid: true, errors: [], issues: [], value };
+  }
+
+  const issues: InputValidationIssue[] = (validator.errors || []).map((error: ErrorObject) => {
+    let issuePath = error.instancePath;
+    if (error.keyword === 'required') issuePath += `/${error.params.missingProperty}`;
+    if (error.keyword === 'additionalProperties') issuePath += `/${error.params.additionalProperty}`;
+
+    let message = error.message || 'is invalid';
+    if (error.keyword === 'required') message = 'is required';
+    if (error.keyword === 'additionalProperties') message = 'is not declared in the schema';
+    if (error.keyword === 'enum') message = `must be one of: ${error.params.allowedValues.join(', ')}`;
+
+    return { path: issuePath || '/', keyword: error.keyword, message };
+  });
+
+  return {
+    valid: false,
+    errors: issues.map(issue => `${issue.path} ${issue.message}`),
+    issues,
+    value
+  };
+}
+
+// Hash of the fields that change what a template does, stable across key order
+export function computeTemplateHash(template: Pick<ScriptTemplate, 'name' | 'description' | 'schema' | 'script' | 'tags'>): string {
+  const canonical = JSON.stringify({
+    name: template.name,
+    description: template.description,
+    schema: sortKeys(template.schema || {}),
+    script: template.script,
+    tags: [...(template.tags || [])].sort()
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc: any, key) => {
+      acc[key] = sortKeys(value[key]);
+      return acc;
+    }, {});
+  }
+  return value;
+}
+
+function getVersionsFile(templateId: string): string {
+  // Template ids come from the API; keep them from escaping the versions directory
+  const safeId = templateId.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return path.join(getVersionsDir(), `${safeId}.json`);
+}
+
+async function readStoredVersions(templateId: string): Promise<StoredScriptTemplateVersion[]> {
+  try {
+    return JSON.parse(await fs.readFile(getVersionsFile(templateId), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function toVersion(stored: StoredScriptTemplateVersion): ScriptTemplateVersion {
+  return { ...stored, template: JSON.parse(decrypt(stored.template)) };
+}
+
+// Version files are read, extended and swapped one write at a time per template
+const versionWrites = new Map<string, Promise<unknown>>();
+
+function serializeVersionWrite<T>(templateId: string, write: () => Promise<T>): Promise<T> {
+  const result = (versionWrites.get(templateId) || Promise.resolve()).then(write, write);
+  const settled = result.catch(() => undefined);
+  versionWrites.set(templateId, settled);
+  settled.then(() => {
+    if (versionWrites.get(templateId) === settled) versionWrites.delete(templateId);
+  });
+  return result;
+}
+
+async function appendTemplateVersion(
+  templateId: string,
+  versions: StoredScriptTemplateVersion[],
+  template: ScriptTemplate,
+  source: ScriptTemplateVersion['source'],
+  rolledBackFrom?: number
+): Promise<ScriptTemplateVersion> {
+  const snapshot = {
+    name: template.name,
+    description: template.description,
+    schema: template.schema,
+    script: template.script,
+    tags: template.tags || []
+  };
+  const stored: StoredScriptTemplateVersion = {
+    templateId,
+    version: (versions[versions.length - 1]?.version || 0) + 1,
+    contentHash: computeTemplateHash(snapshot),
+    createdAt: new Date().toISOString(),
+    source,
+    ...(rolledBackFrom !== undefined ? { rolledBackFrom } : {}),
+    template: encrypt(JSON.stringify(snapshot))
+  };
+
+  // Existing entries are never rewritten; the new version is appended and the file swapped atomically
+  const file = getVersionsFile(templateId);
+  await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+  const tmpFile = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify([...versions, stored], null, 2), { mode: 0o600 });
+  await fs.rename(tmpFile, file);
+
+  return { ...stored, template: snapshot };
+}
+
+async function recordTemplateVersion(
+  templateId: string,
+  template: ScriptTemplate,
+  source: ScriptTemplateVersion['source'],
+  rolledBackFrom?: number
+): Promise<ScriptTemplateVersion> {
+  return serializeVersionWrite(templateId, async () =>
+    appendTemplateVersion(templateId, await readStoredVersions(templateId), template, source, rolledBackFrom)
+  );
+}
+
+// Records the current content of a template saved before versioning existed; no-op once it has versions
+async function recordBaselineVersion(templateId: string, template: ScriptTemplate): Promise<void> {
+  await serializeVersionWrite(templateId, async () => {
+    const versions = await readStoredVersions(templateId);
+    if (versions.length === 0) await appendTemplateVersion(templateId, versions, template, 'baseline');
+  });
+}
+
+// Line-level diff using the longest common subsequence of both scripts
+export function diffLines(before: string, after: string): ScriptDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: ScriptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'unchanged', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: 'removed', line: a[i++] });
+    } else {
+      diff.push({ type: 'added', line: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', line: a[i++] });
+  while (j < b.length) diff.push({ type: 'added', line: b[j++] });
+
+  return diff;
+}
+
 // Save script template via local REST API
 export async function saveScriptTemplate(
   scriptData: Omit<ScriptTemplate, 'id' | 'createdAt' | 'updatedAt'>,
   token: string
-): Promise<{ success: boolean; id?: string; error?: string }> {
+): Promise<{ success: boolean; id?: string; warning?: string; error?: string }> {
   try {
+    const templateErrors = [
+      ...validateInputSchema(scriptData.schema).errors,
+      ...validateTemplateVariables(scriptData.script, scriptData.schema).errors
+    ];
+    if (templateErrors.length > 0) {
+      return { success: false, error: `Template validation failed: ${templateErrors.join('; ')}` };
+    }
+
     const response = await makeAuthenticatedRequest(
       '/api/scripts',
       token,
@@ -193,6 +561,18 @@ export async function saveScriptTemplate(
         tags: scriptData.tags
       }
     );
+
+    // The template exists remotely from here on, so a versioning failure must not report it as unsaved
+    try {
+      await recordTemplateVersion(response.id, { ...scriptData, id: response.id }, 'created');
+    } catch (error) {
+      console.error('Error recording script template version:', error);
+      return {
+        success: true,
+        id: response.id,
+        warning: `Template saved, but its first version could not be recorded: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
     
     return { success: true, id: response.id };
   } catch (error) {
@@ -243,17 +623,138 @@ export async function updateScriptTemplate(
   id: string, 
   token: string, 
   updates: Partial<Omit<ScriptTemplate, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; version?: number; error?: string }> {
+  return updateScriptTemplateWithSource(id, token, updates, 'updated');
+}
+
+async function updateScriptTemplateWithSource(
+  id: string,
+  token: string,
+  updates: Partial<Omit<ScriptTemplate, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>,
+  source: 'updated' | 'rollback',
+  rolledBackFrom?: number
+): Promise<{ success: boolean; version?: number; error?: string }> {
   try {
+    const needsCurrent = updates.script !== undefined || updates.schema !== undefined || (await readStoredVersions(id)).length === 0;
+    const current = needsCurrent ? await getScriptTemplate(id, token) : null;
+
+    // A script or schema change must leave the two consistent
+    if (current?.success && current.script && (updates.script !== undefined || updates.schema !== undefined)) {
+      const schema = updates.schema ?? current.script.schema;
+      const templateErrors = [
+        ...validateInputSchema(schema).errors,
+        ...validateTemplateVariables(updates.script ?? current.script.script, schema).errors
+      ];
+      if (templateErrors.length > 0) {
+        return { success: false, error: `Template validation failed: ${templateErrors.join('; ')}` };
+      }
+    }
+
+    // Templates saved before versioning existed get their current content recorded first
+    if (current?.success && current.script) {
+      await recordBaselineVersion(id, current.script);
+    }
+
     await makeAuthenticatedRequest(`/api/scripts/${id}`, token, 'PUT', updates);
+
+    const updated = await getScriptTemplate(id, token);
+    if (!updated.success || !updated.script) {
+      throw new Error(`Template updated but could not be re-read for versioning: ${updated.error}`);
+    }
+    const version = await recordTemplateVersion(id, updated.script, source, rolledBackFrom);
     
-    return { success: true };
+    return { success: true, version: version.version };
   } catch (error) {
     console.error('Error updating script template:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
+// List the recorded versions of a template (metadata only)
+export async function listScriptTemplateVersions(
+  id: string
+): Promise<{ success: boolean; versions?: Omit<ScriptTemplateVersion, 'template'>[]; error?: string }> {
+  try {
+    const versions = (await readStoredVersions(id)).map(({ template, ...metadata }) => metadata);
+    return { success: true, versions };
+  } catch (error) {
+    console.error('Error listing script template versions:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Retrieve the full content of one recorded version
+export async function getScriptTemplateVersion(
+  id: string,
+  version: number
+): Promise<{ success: boolean; version?: ScriptTemplateVersion; error?: string }> {
+  try {
+    const stored = (await readStoredVersions(id)).find(entry => entry.version === version);
+    if (!stored) {
+      return { success: false, error: `Version ${version} of script template ${id} not found` };
+    }
+    return { success: true, version: toVersion(stored) };
+  } catch (error) {
+    console.error('Error retrieving script template version:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Compare two recorded versions field by field, with a line diff of the script
+export async function diffScriptTemplateVersions(
+  id: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<{ success: boolean; diff?: any; error?: string }> {
+  try {
+    const [from, to] = await Promise.all([getScriptTemplateVersion(id, fromVersion), getScriptTemplateVersion(id, toVersion)]);
+    if (!from.success || !to.success) {
+      return { success: false, error: from.error || to.error };
+    }
+
+    const before = from.version!.template;
+    const after = to.version!.template;
+    const changedFields = (['name', 'description', 'schema', 'tags'] as const)
+      .filter(field => JSON.stringify(sortKeys(before[field])) !== JSON.stringify(sortKeys(after[field])))
+      .map(field => ({ field, from: before[field], to: after[field] }));
+    const scriptDiff = diffLines(before.script, after.script);
+
+    return {
+      success: true,
+      diff: {
+        templateId: id,
+        fromVersion,
+        toVersion,
+        identical: from.version!.contentHash === to.version!.contentHash,
+        changedFields,
+        scriptChanges: {
+          added: scriptDiff.filter(line => line.type === 'added').length,
+          removed: scriptDiff.filter(line => line.type === 'removed').length
+        },
+        scriptDiff: scriptDiff
+          .map(line => `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} ${line.line}`)
+          .join('\n')
+      }
+    };
+  } catch (error) {
+    console.error('Error diffing script template versions:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Restore a recorded version; the restore itself becomes a new version
+export async function rollbackScriptTemplate(
+  id: string,
+  token: string,
+  version: number
+): Promise<{ success: boolean; version?: number; error?: string }> {
+  const target = await getScriptTemplateVersion(id, version);
+  if (!target.success) {
+    return { success: false, error: target.error };
+  }
+  return updateScriptTemplateWithSource(id, token, target.version!.template, 'rollback', version);
+}
+
 // Delete script template via local REST API
 export async function deleteScriptTemplate(
   id: string, 
@@ -314,7 +815,7 @@ export async function interpolateScriptViaAPI(
     }
     
     // Interpolate locally
-    const interpolated = interpolateScript(script.script, variables);
+    const interpolated = interpolateScript(script.script, variables, script.schema);
     
     // Return the same format as the API would
     const result = {
@@ -358,18 +859,28 @@ export async function interpolateScriptViaAPIEndpoint(
 }
 
 // Validation schemas for MCP tools (using raw shape format)
+const ScriptInputFieldSchema = z.object({
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'array', 'object', 'null']),
+  description: z.string(),
+  title: z.string(),
+  required: z.boolean().optional(),
+  default: z.any().optional(),
+  options: z.array(z.string()).optional(),
+  interpolation: z.enum(['literal', 'raw']).optional().describe("'literal' (default) inserts the value as an escaped JS literal; 'raw' splices it into the code unescaped"),
+  items: z.record(z.string(), z.any()).optional().describe("JSON Schema for array elements")
+}).passthrough(); // Other JSON Schema keywords (pattern, minimum, properties, format, ...) are checked by ajv
+
+const ScriptInputSchemaSchema = z.record(z.string(), ScriptInputFieldSchema).superRefine((schema, ctx) => {
+  const check = validateInputSchema(schema as ScriptInputSchema);
+  for (const error of check.errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
 export const SaveScriptSchema = {
   name: z.string().min(1, "Name is required"),
   description: z.string().min(1, "Description is required"),
-  schema: z.record(z.string(), z.object({
-    type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
-    description: z.string(),
-    title: z.string(),
-    required: z.boolean().optional(),
-    default: z.any().optional(),
-    options: z.array(z.string()).optional(),
-    items: z.any().optional() // Recursive schema for arrays/objects
-  })).describe("Input schema defining the structure of inputs the script expects"),
+  schema: ScriptInputSchemaSchema.describe("Input schema defining the structure of inputs the script expects; each field is a JSON Schema (draft 2020-12)"),
   script: z.string().min(1, "Script code is required"),
   tags: z.array(z.string()).optional().default([])
 };
@@ -382,15 +893,7 @@ export const UpdateScriptSchema = {
   id: z.string().min(1, "Script ID is required"),
   name: z.string().optional(),
   description: z.string().optional(),
-  schema: z.record(z.string(), z.object({
-    type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
-    description: z.string(),
-    title: z.string(),
-    required: z.boolean().optional(),
-    default: z.any().optional(),
-    options: z.array(z.string()).optional(),
-    items: z.any().optional()
-  })).optional(),
+  schema: ScriptInputSchemaSchema.optional(),
   script: z.string().optional(),
   tags: z.array(z.string()).optional()
 };
@@ -412,6 +915,21 @@ export const ExecuteScriptSchema = {
   inputs: z.record(z.string(), z.any()).describe("Input values for the script based on its schema")
 };
 
+export const ListScriptVersionsSchema = {
+  id: z.string().min(1, "Script ID is required")
+};
+
+export const DiffScriptVersionsSchema = {
+  id: z.string().min(1, "Script ID is required"),
+  fromVersion: z.number().int().positive().describe("Older version number to compare from"),
+  toVersion: z.number().int().positive().describe("Newer version number to compare to")
+};
+
+export const RollbackScriptSchema = {
+  id: z.string().min(1, "Script ID is required"),
+  version: z.number().int().positive().describe("Version number to restore; the restore is recorded as a new version")
+};
+
 export const InterpolateScriptSchema = {
   id: z.string().min(1, "Script ID is required"),
   variables: z.record(z.string(), z.any()).describe("Variable values to interpolate into the script template")
@@ -5,6 +5,15 @@
  * for detecting malicious code and environment variable exposure.
  */
 
+// A single concrete issue found in the code, with the 1-based line it occurs on
+export interface SecurityFinding {
+  rule: 'env_exfiltration' | 'child_process' | 'dynamic_code' | 'filesystem_write' | 'network_call' | 'git_operation' | 'syntax_error';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  message: string;
+  line: number;
+  snippet?: string;
+}
+
 // Interface for code analysis result
 export interface CodeAnalysisResult {
   success: boolean;
@@ -16,6 +25,7 @@ export interface CodeAnalysisResult {
   environment_exposure_risk?: string;
   malicious_code_detected?: boolean;
   threat_level?: string;
+  findings?: SecurityFinding[];
   error?: string;
 }
 
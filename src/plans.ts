@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { randomBytes } from 'crypto';
+
+/**
+ * Structured task plans. A plan states the task and the ordered steps the agent
+ * intends to take, with the resources each step will use. Every `evaluate` carries
+ * out one step, so the approver sees where the code fits in the task and the audit
+ * trail ties each evaluation and execution back to the plan.
+ */
+
+export const MAX_PLAN_STEPS = 20;
+
+export const PlanStepInputSchema = z.object({
+  description: z.string().min(1).describe("What this step does, e.g. 'Fetch Stripe invoices from the last 30 days'"),
+  resources: z.array(z.string()).optional().describe("Services, APIs, credentials or files this step will use")
+});
+
+export type PlanStepInput = z.infer<typeof PlanStepInputSchema>;
+
+// A rejected step can be evaluated again with revised code; an approved one cannot
+export type PlanStepStatus = 'pending' | 'in_review' | 'approved' | 'rejected';
+
+export interface PlanStep {
+  number: number; // 1-based
+  description: string;
+  resources: string[];
+  status: PlanStepStatus;
+  executionTokens: string[]; // Every evaluation submitted for this step
+}
+
+export interface TaskPlan {
+  planId: string;
+  task: string;
+  steps: PlanStep[];
+  researchCompleted: boolean;
+  contextResearchRequired: boolean;
+  codespace: { backend: string; name: string };
+  createdAt: string;
+}
+
+// What an evaluation or execution records about the step it belongs to
+export interface PlanStepReference {
+  planId: string;
+  task: string;
+  step: number;
+  totalSteps: number;
+  description: string;
+  resources: string[];
+}
+
+export const createTaskPlan = ({
+  task,
+  steps,
+  researchCompleted,
+  contextResearchRequired,
+  codespace
+}: {
+  task: string;
+  steps?: PlanStepInput[];
+  researchCompleted: boolean;
+  contextResearchRequired: boolean;
+  codespace: { backend: string; name: string };
+}): TaskPlan => ({
+  planId: `plan-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`,
+  task,
+  // A plan without explicit steps is a single step doing the whole task
+  steps: (steps && steps.length > 0 ? steps : [{ description: task }]).map((step, index) => ({
+    number: index + 1,
+    description: step.description,
+    resources: step.resources || [],
+    status: 'pending',
+    executionTokens: []
+  })),
+  researchCompleted,
+  contextResearchRequired,
+  codespace,
+  createdAt: new Date().toISOString()
+});
+
+export const referenceStep = (plan: TaskPlan, step: PlanStep): PlanStepReference => ({
+  planId: plan.planId,
+  task: plan.task,
+  step: step.number,
+  totalSteps: plan.steps.length,
+  description: step.description,
+  resources: step.resources
+});
+
+export const describeStep = (reference: PlanStepReference): string =>
+  `Step ${reference.step} of ${reference.totalSteps}: ${reference.description}`;
+
+export const formatPlanForApprover = (plan: TaskPlan): string => [
+  `Task: ${plan.task}`,
+  `Runs on: ${plan.codespace.name}`,
+  '',
+  ...plan.steps.map(step => `${step.number}. ${step.description}${step.resources.length ? ` (uses: ${step.resources.join(', ')})` : ''}`)
+].join('\n');
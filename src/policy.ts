@@ -0,0 +1,241 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import 'dotenv/config'
+
+/**
+ * Local approval policy consulted by `evaluate` before anything reaches the approver app.
+ *
+ * Deny rules win over allow rules; code matching neither is escalated to the
+ * existing WebSocket approval with every matched rule attached. Code the static
+ * analyzer rates high or critical is never allowed without a human.
+ *
+ * Example policy.json:
+ * {
+ *   "rules": [
+ *     { "id": "no-shell", "action": "deny", "reason": "Shell access is not allowed", "match": { "codePatterns": ["child_process", "\\bexecSync\\("] } },
+ *     { "id": "read-only-github", "action": "allow", "match": { "onlyHosts": ["api.github.com"], "notCodePatterns": ["method:\\s*['\"](POST|PUT|PATCH|DELETE)"] } }
+ *   ]
+ * }
+ */
+
+const policyPath = process.env.POLICY_PATH || path.join(os.homedir(), '.keyboard-mcp', 'policy.json');
+
+const PolicyMatchSchema = z.object({
+  codePatterns: z.array(z.string()).optional(), // Any of these regexes matches the code
+  notCodePatterns: z.array(z.string()).optional(), // None of these regexes matches the code
+  envKeys: z.array(z.string()).optional(), // Code references an env key matching any of these globs
+  hosts: z.array(z.string()).optional(), // Code calls a host matching any of these globs
+  onlyHosts: z.array(z.string()).optional(), // Every host the code calls matches one of these globs
+  templateIds: z.array(z.string()).optional() // Code comes from one of these script templates
+});
+
+const PolicyRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  action: z.enum(['allow', 'deny', 'escalate']),
+  reason: z.string().optional(),
+  match: PolicyMatchSchema
+});
+
+const PolicySchema = z.object({
+  rules: z.array(PolicyRuleSchema).default([])
+});
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyDecision = 'allow' | 'deny' | 'escalate';
+
+export interface PolicyInput {
+  code: string;
+  resources?: any; // Response of fetchKeyNameAndResources, used to recognise env key names
+  templateId?: string;
+  threatLevel?: string; // Highest severity reported by the static analyzer
+}
+
+export interface PolicyEvaluation {
+  decision: PolicyDecision;
+  reason: string;
+  matchedRules: { id: string; action: PolicyDecision; description?: string; reason?: string }[];
+  facts: {
+    envKeys: string[];
+    hosts: string[];
+    templateId?: string;
+  };
+  policyPath: string;
+  policyError?: string;
+}
+
+// Static analysis levels that turn an allow into an escalation
+const REVIEW_REQUIRED_THREAT_LEVELS = ['high', 'critical'];
+
+const globToRegExp = (glob: string): RegExp => {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+const matchesAnyGlob = (value: string, globs: string[]): boolean =>
+  globs.some(glob => globToRegExp(glob).test(value));
+
+// Walks the resources payload for anything shaped like an env var name
+const collectKnownKeyNames = (resources: any, found: Set<string> = new Set()): Set<string> => {
+  if (typeof resources === 'string') {
+    if (/^[A-Z][A-Z0-9_]{2,}$/.test(resources)) found.add(resources);
+  } else if (Array.isArray(resources)) {
+    resources.forEach(item => collectKnownKeyNames(item, found));
+  } else if (resources && typeof resources === 'object') {
+    for (const [key, value] of Object.entries(resources)) {
+      if (/^[A-Z][A-Z0-9_]{2,}$/.test(key)) found.add(key);
+      collectKnownKeyNames(value, found);
+    }
+  }
+  return found;
+};
+
+export const extractReferencedEnvKeys = (code: string, resources?: any): string[] => {
+  const referenced = new Set<string>();
+  const envAccess = /process\.env(?:\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*['"`]([^'"`]+)['"`]\s*\])/g;
+  let match;
+  while ((match = envAccess.exec(code)) !== null) {
+    referenced.add(match[1] || match[2]);
+  }
+
+  // Known key names can also be referenced indirectly, e.g. through a lookup table
+  for (const keyName of collectKnownKeyNames(resources)) {
+    if (new RegExp(`\\b${keyName}\\b`).test(code)) {
+      referenced.add(keyName);
+    }
+  }
+  return [...referenced].sort();
+};
+
+export const extractOutboundHosts = (code: string): string[] => {
+  const hosts = new Set<string>();
+  const urlPattern = /\b(?:https?|wss?):\/\/([a-zA-Z0-9.-]+)(?::\d+)?/g;
+  let match;
+  while ((match = urlPattern.exec(code)) !== null) {
+    hosts.add(match[1].toLowerCase());
+  }
+
+  const hostOption = /\bhost(?:name)?\s*:\s*['"`]([a-zA-Z0-9.-]+)['"`]/g;
+  while ((match = hostOption.exec(code)) !== null) {
+    hosts.add(match[1].toLowerCase());
+  }
+  return [...hosts].sort();
+};
+
+const ruleMatches = (rule: PolicyRule, input: PolicyInput, facts: PolicyEvaluation['facts']): boolean => {
+  const { match } = rule;
+  const conditions: boolean[] = [];
+
+  if (match.codePatterns) {
+    conditions.push(match.codePatterns.some(pattern => new RegExp(pattern, 'm').test(input.code)));
+  }
+  if (match.notCodePatterns) {
+    conditions.push(!match.notCodePatterns.some(pattern => new RegExp(pattern, 'm').test(input.code)));
+  }
+  if (match.envKeys) {
+    conditions.push(facts.envKeys.some(key => matchesAnyGlob(key, match.envKeys!)));
+  }
+  if (match.hosts) {
+    conditions.push(facts.hosts.some(host => matchesAnyGlob(host, match.hosts!)));
+  }
+  if (match.onlyHosts) {
+    // Requires at least one detected host, so dynamically built URLs cannot satisfy it vacuously
+    conditions.push(facts.hosts.length > 0 && facts.hosts.every(host => matchesAnyGlob(host, match.onlyHosts!)));
+  }
+  if (match.templateIds) {
+    conditions.push(!!facts.templateId && match.templateIds.includes(facts.templateId));
+  }
+
+  // A rule without conditions never matches, so an empty "allow" cannot approve everything
+  return conditions.length > 0 && conditions.every(Boolean);
+};
+
+export const loadPolicy = async (): Promise<{ rules: PolicyRule[]; error?: string }> => {
+  let contents: string;
+  try {
+    contents = await fs.readFile(policyPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { rules: [] };
+    return { rules: [], error: `Failed to read policy file: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  try {
+    const policy = PolicySchema.parse(JSON.parse(contents));
+    // Compile every pattern up front so a typo surfaces as a policy error, not a crash mid-evaluation
+    for (const rule of policy.rules) {
+      [...(rule.match.codePatterns || []), ...(rule.match.notCodePatterns || [])].forEach(pattern => new RegExp(pattern, 'm'));
+    }
+    return { rules: policy.rules };
+  } catch (error) {
+    return { rules: [], error: `Invalid policy file: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+};
+
+export const evaluatePolicy = async (input: PolicyInput): Promise<PolicyEvaluation> => {
+  const facts = {
+    envKeys: extractReferencedEnvKeys(input.code, input.resources),
+    hosts: extractOutboundHosts(input.code),
+    templateId: input.templateId
+  };
+  const { rules, error } = await loadPolicy();
+
+  // A broken policy must never auto-approve anything
+  if (error) {
+    return {
+      decision: 'escalate',
+      reason: error,
+      matchedRules: [],
+      facts,
+      policyPath,
+      policyError: error
+    };
+  }
+
+  const matchedRules = rules
+    .filter(rule => ruleMatches(rule, input, facts))
+    .map(rule => ({ id: rule.id, action: rule.action, description: rule.description, reason: rule.reason }));
+
+  const denyRule = matchedRules.find(rule => rule.action === 'deny');
+  if (denyRule) {
+    return {
+      decision: 'deny',
+      reason: denyRule.reason || `Rejected by policy rule '${denyRule.id}'`,
+      matchedRules,
+      facts,
+      policyPath
+    };
+  }
+
+  const escalateRule = matchedRules.find(rule => rule.action === 'escalate');
+  const allowRule = matchedRules.find(rule => rule.action === 'allow');
+  if (allowRule && !escalateRule) {
+    if (input.threatLevel && REVIEW_REQUIRED_THREAT_LEVELS.includes(input.threatLevel)) {
+      return {
+        decision: 'escalate',
+        reason: `Static analysis rated the code ${input.threatLevel}, so rule '${allowRule.id}' cannot approve it; human approval required`,
+        matchedRules,
+        facts,
+        policyPath
+      };
+    }
+    return {
+      decision: 'allow',
+      reason: allowRule.reason || `Approved by policy rule '${allowRule.id}'`,
+      matchedRules,
+      facts,
+      policyPath
+    };
+  }
+
+  return {
+    decision: 'escalate',
+    reason: matchedRules.length > 0
+      ? `Matched rules require human review: ${matchedRules.map(rule => rule.id).join(', ')}`
+      : 'No policy rule matched; human approval required',
+    matchedRules,
+    facts,
+    policyPath
+  };
+};
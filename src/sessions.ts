@@ -0,0 +1,400 @@
+import { generateToken, expiresAfter, isExpired, ExecutionGrant, TokenCheck } from './execution-tokens.js';
+import { TaskPlan, PlanStepReference, referenceStep } from './plans.js';
+import { BatchPosition, BatchUnitRunState } from './batches.js';
+
+/**
+ * Per-session state for the plan -> evaluate -> execute workflow.
+ *
+ * Every MCP session gets its own planning and execution tokens, so parallel agent
+ * conversations neither see nor replace each other's approvals, and a failure only
+ * discards the session's own entries. Transports without session ids (stdio) share
+ * one default session. A session can hold any number of outstanding tokens. An
+ * execution token is used once; a planning token lasts until every step of its plan
+ * has been approved. Both expire on their own; a plan's window starts over whenever
+ * one of its steps is evaluated, and a plan is never dropped while a step is in review.
+ */
+
+export const DEFAULT_SESSION_ID = 'keyboard-mcp-user';
+
+const SESSION_IDLE_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanningEntry {
+  token: string;
+  status: 'planned';
+  createdAt: string;
+  expiresAt: string;
+  ttlSeconds: number; // Granted again with every step evaluation
+  plan: TaskPlan;
+  used: boolean; // Every step has been approved
+}
+
+export interface TemplateSource {
+  templateId: string;
+  templateName: string;
+  templateVersion: number | null;
+  templateHash: string;
+  variables: Record<string, any>;
+}
+
+export interface PendingExecution {
+  token: string;
+  status: 'awaiting_approval' | 'approved';
+  createdAt: string;
+  expiresAt: string; // Until approval; the grant carries its own expiry afterwards
+  code?: string;
+  explanation?: string;
+  backend?: string;
+  codespaceName?: string;
+  timeoutSeconds?: number;
+  template?: TemplateSource;
+  planStep?: PlanStepReference;
+  batch?: BatchPosition;
+  grant?: ExecutionGrant;
+}
+
+export interface PendingExecutionSummary {
+  sessionId: string;
+  token?: string; // Only shown to the session that owns it
+  status: PendingExecution['status'];
+  createdAt: string;
+  expiresAt: string;
+  backend?: string;
+  codespaceName?: string;
+  timeoutSeconds?: number;
+  templateId?: string;
+  planStep?: PlanStepReference;
+  batch?: BatchPosition;
+  codePreview?: string;
+}
+
+interface Session {
+  id: string;
+  createdAt: string;
+  lastActiveAt: number;
+  selectedCodespace: string | null; // Chosen with 'select-codespace'
+  planning: Map<string, PlanningEntry>;
+  executions: Map<string, PendingExecution>;
+  batchRuns: Map<string, Record<number, BatchUnitRunState>>; // Kept while units of the batch wait for their tokens to be used
+}
+
+export interface SessionSnapshot {
+  id: string;
+  createdAt: string;
+  lastActiveAt: number;
+  selectedCodespace?: string | null;
+  planning: PlanningEntry[];
+  executions: PendingExecution[];
+  batchRuns?: Record<string, Record<number, BatchUnitRunState>>;
+}
+
+const sessions = new Map<string, Session>();
+
+// Set by the durable state store so every change is written through
+let onChange: (() => void) | null = null;
+const changed = (): void => onChange?.();
+
+export const setSessionsChangeListener = (listener: (() => void) | null): void => {
+  onChange = listener;
+};
+
+export const resolveSessionId = (sessionId?: string): string => sessionId || DEFAULT_SESSION_ID;
+
+// Drops expired tokens everywhere and sessions with nothing left that have gone quiet
+const pruneSessions = (now: number = Date.now()): void => {
+  for (const session of sessions.values()) {
+    for (const [token, entry] of session.planning) {
+      const inReview = entry.plan.steps.some(step => step.status === 'in_review');
+      if (!inReview && isExpired(entry.expiresAt, now)) session.planning.delete(token);
+    }
+    for (const [token, entry] of session.executions) {
+      if (isExpired(entry.grant?.expiresAt ?? entry.expiresAt, now)) session.executions.delete(token);
+    }
+    for (const batchId of session.batchRuns.keys()) {
+      if (![...session.executions.values()].some(entry => entry.batch?.batchId === batchId)) session.batchRuns.delete(batchId);
+    }
+    if (session.planning.size === 0 && session.executions.size === 0 && !session.selectedCodespace && now - session.lastActiveAt > SESSION_IDLE_MS) {
+      sessions.delete(session.id);
+    }
+  }
+};
+
+const getSession = (sessionId: string): Session => {
+  pruneSessions();
+  let session = sessions.get(sessionId);
+  if (!session) {
+    session = { id: sessionId, createdAt: new Date().toISOString(), lastActiveAt: Date.now(), selectedCodespace: null, planning: new Map(), executions: new Map(), batchRuns: new Map() };
+    sessions.set(sessionId, session);
+  }
+  session.lastActiveAt = Date.now();
+  return session;
+};
+
+export const getSelectedCodespace = (sessionId: string): string | null => sessions.get(sessionId)?.selectedCodespace ?? null;
+
+export const selectCodespace = (sessionId: string, codespaceName: string | null): void => {
+  getSession(sessionId).selectedCodespace = codespaceName;
+  changed();
+};
+
+// Codespaces some session has selected, which the janitor must leave alone
+export const listSelectedCodespaces = (): string[] =>
+  [...new Set([...sessions.values()].map(session => session.selectedCodespace).filter((name): name is string => Boolean(name)))];
+
+export const createPlanningToken = (sessionId: string, ttlSeconds: number, plan: TaskPlan): PlanningEntry => {
+  const entry: PlanningEntry = {
+    token: generateToken('plan_'),
+    status: 'planned',
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresAfter(ttlSeconds),
+    ttlSeconds,
+    plan,
+    used: false // Track if token has been used
+  };
+  getSession(sessionId).planning.set(entry.token, entry);
+  changed();
+  return entry;
+};
+
+/**
+ * Reserves one step of a plan for an evaluation. The step may be omitted when the
+ * plan has a single step. A step is free again if its evaluation was rejected.
+ */
+export const claimPlanStep = (
+  sessionId: string,
+  token: string,
+  stepNumber?: number
+): { reference: PlanStepReference } | Extract<TokenCheck, { valid: false }> => {
+  const entry = sessions.get(sessionId)?.planning.get(token);
+  if (!entry) {
+    return {
+      valid: false,
+      code: 'TOKEN_INVALID',
+      message: token.startsWith('plan_')
+        ? "Unknown planning token: it belongs to another session or has expired. Call the 'plan' tool to get one"
+        : "Not a planning token. Call the 'plan' tool to get one"
+    };
+  }
+  if (entry.used) {
+    return { valid: false, code: 'TOKEN_ALREADY_USED', message: "Every step of this plan has already been approved. Call the 'plan' tool for new work" };
+  }
+  if (isExpired(entry.expiresAt)) {
+    return { valid: false, code: 'TOKEN_EXPIRED', message: `This planning token expired at ${entry.expiresAt}. Call the 'plan' tool again` };
+  }
+
+  const { steps } = entry.plan;
+  if (stepNumber === undefined && steps.length > 1) {
+    return { valid: false, code: 'PLAN_STEP_INVALID', message: `This plan has ${steps.length} steps; pass 'step' to say which one this code carries out` };
+  }
+  const step = steps[(stepNumber ?? 1) - 1];
+  if (!step) {
+    return { valid: false, code: 'PLAN_STEP_INVALID', message: `This plan has no step ${stepNumber}; it has steps 1 to ${steps.length}` };
+  }
+  if (step.status === 'approved' || step.status === 'in_review') {
+    return {
+      valid: false,
+      code: 'PLAN_STEP_UNAVAILABLE',
+      message: `Step ${step.number} is already ${step.status === 'approved' ? 'approved' : 'being reviewed'}. Only pending or rejected steps can be evaluated`
+    };
+  }
+
+  step.status = 'in_review';
+  entry.expiresAt = expiresAfter(entry.ttlSeconds);
+  changed();
+  return { reference: referenceStep(entry.plan, step) };
+};
+
+// Frees a claimed step whose evaluation never reached a decision
+export const releasePlanStep = (sessionId: string, token: string, stepNumber: number): void => {
+  const step = sessions.get(sessionId)?.planning.get(token)?.plan.steps[stepNumber - 1];
+  if (step?.status === 'in_review') {
+    step.status = 'pending';
+    changed();
+  }
+};
+
+// Records the outcome of a step's evaluation; the planning token is used up once all steps are approved
+export const settlePlanStep = (sessionId: string, token: string, stepNumber: number, executionToken: string, approved: boolean): void => {
+  const entry = sessions.get(sessionId)?.planning.get(token);
+  const step = entry?.plan.steps[stepNumber - 1];
+  if (!entry || !step) return;
+
+  step.status = approved ? 'approved' : 'rejected';
+  step.executionTokens.push(executionToken);
+  entry.expiresAt = expiresAfter(entry.ttlSeconds);
+  entry.used = entry.plan.steps.every(candidate => candidate.status === 'approved');
+  changed();
+};
+
+export const createExecutionToken = (sessionId: string, ttlSeconds: number): PendingExecution => {
+  const entry: PendingExecution = {
+    token: generateToken(),
+    status: 'awaiting_approval',
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresAfter(ttlSeconds)
+  };
+  getSession(sessionId).executions.set(entry.token, entry);
+  changed();
+  return entry;
+};
+
+export const approveExecution = (
+  sessionId: string,
+  token: string,
+  approved: Omit<PendingExecution, 'token' | 'status' | 'createdAt' | 'expiresAt'> & { grant: ExecutionGrant }
+): PendingExecution | undefined => {
+  const entry = sessions.get(sessionId)?.executions.get(token);
+  if (!entry) return undefined;
+  Object.assign(entry, approved, { status: 'approved' });
+  changed();
+  return entry;
+};
+
+export const discardExecution = (sessionId: string, token: string): void => {
+  if (sessions.get(sessionId)?.executions.delete(token)) changed();
+};
+
+// Where a unit of a batch stands: recorded once its token is taken, otherwise pending while the token is still there
+const batchUnitState = (session: Session, batchId: string, unit: number): BatchUnitRunState | 'pending' | 'unavailable' => {
+  const recorded = session.batchRuns.get(batchId)?.[unit];
+  if (recorded) return recorded;
+  return [...session.executions.values()].some(entry => entry.batch?.batchId === batchId && entry.batch.unit === unit) ? 'pending' : 'unavailable';
+};
+
+const recordBatchUnit = (session: Session, batchId: string, unit: number, state: BatchUnitRunState): void => {
+  session.batchRuns.set(batchId, { ...session.batchRuns.get(batchId), [unit]: state });
+};
+
+/**
+ * Removes an execution token from its session and returns what was approved for it.
+ * Tokens are single use: whatever `execute` does next, the token cannot be replayed.
+ * A token from a batch is only handed out once the earlier approved units of that
+ * batch have been executed and the units it depends on have succeeded; until then
+ * it stays where it is. Once a dependency has failed or can no longer run, the
+ * token is discarded, and so are the tokens of units depending on it in turn.
+ */
+export const takeExecution = (sessionId: string, token: string): { entry: PendingExecution } | Extract<TokenCheck, { valid: false }> => {
+  pruneSessions();
+  const session = sessions.get(sessionId);
+  const entry = session?.executions.get(token);
+  if (!entry) {
+    const elsewhere = [...sessions.values()].some(other => other.id !== sessionId && other.executions.has(token));
+    return {
+      valid: false,
+      code: 'TOKEN_INVALID',
+      message: elsewhere
+        ? 'This execution token belongs to another session'
+        : "Unknown execution token: it was already used, has expired, or was never issued. Please call the 'evaluate' tool first to get a token"
+    };
+  }
+  if (entry.status !== 'approved') {
+    return { valid: false, code: 'TOKEN_NOT_APPROVED', message: "This execution token has no approved code. Call 'evaluate' and get it approved first" };
+  }
+  if (entry.batch) {
+    const { batchId, unit, dependsOn } = entry.batch;
+    for (const dependency of dependsOn) {
+      const state = batchUnitState(session!, batchId, dependency);
+      if (state === 'failed' || state === 'unavailable') {
+        session!.executions.delete(token);
+        recordBatchUnit(session!, batchId, unit, 'failed');
+        changed();
+        return {
+          valid: false,
+          code: 'BATCH_DEPENDENCY_FAILED',
+          message: `Unit ${unit} of ${batchId} depends on unit ${dependency}, which ${state === 'failed' ? 'did not run successfully' : 'was never executed and can no longer be'}. This token has been discarded; call 'evaluate' again`
+        };
+      }
+      if (state === 'running') {
+        return {
+          valid: false,
+          code: 'BATCH_ORDER',
+          message: `Unit ${unit} of ${batchId} depends on unit ${dependency}, which is still running. Execute this token once it has succeeded; it stays valid`
+        };
+      }
+    }
+  }
+  const waitingFor = entry.batch?.after.find(earlier => session!.executions.has(earlier));
+  if (waitingFor) {
+    const earlierUnit = session!.executions.get(waitingFor)!.batch?.unit;
+    return {
+      valid: false,
+      code: 'BATCH_ORDER',
+      message: `Unit ${entry.batch!.unit} of ${entry.batch!.batchId} runs after unit ${earlierUnit}. Execute token ${waitingFor} first; this token stays valid`
+    };
+  }
+  session!.executions.delete(token);
+  if (entry.batch) recordBatchUnit(session!, entry.batch.batchId, entry.batch.unit, 'running');
+  changed();
+  return { entry };
+};
+
+// Records how a taken batch unit finished, which decides whether the units depending on it may run
+export const settleBatchUnit = (sessionId: string, batchId: string, unit: number, succeeded: boolean): void => {
+  const session = sessions.get(sessionId);
+  if (!session?.batchRuns.has(batchId)) return;
+  recordBatchUnit(session, batchId, unit, succeeded ? 'succeeded' : 'failed');
+  changed();
+};
+
+export const listPendingExecutions = (
+  sessionId: string,
+  { allSessions = false }: { allSessions?: boolean } = {}
+): PendingExecutionSummary[] => {
+  pruneSessions();
+  return [...sessions.values()]
+    .filter(session => allSessions || session.id === sessionId)
+    .flatMap(session => [...session.executions.values()].map(entry => ({
+      sessionId: session.id,
+      ...(session.id === sessionId ? { token: entry.token } : {}),
+      status: entry.status,
+      createdAt: entry.createdAt,
+      expiresAt: entry.grant?.expiresAt ?? entry.expiresAt,
+      backend: entry.backend,
+      codespaceName: entry.codespaceName,
+      timeoutSeconds: entry.timeoutSeconds,
+      templateId: entry.template?.templateId,
+      planStep: entry.planStep,
+      batch: entry.batch,
+      codePreview: entry.code ? entry.code.slice(0, 200) : undefined
+    })))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Expired entries are dropped on the way out, so they never reach the disk
+export const exportSessions = (): SessionSnapshot[] => {
+  pruneSessions();
+  return [...sessions.values()].map(session => ({
+    id: session.id,
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    selectedCodespace: session.selectedCodespace,
+    planning: [...session.planning.values()],
+    executions: [...session.executions.values()],
+    batchRuns: Object.fromEntries(session.batchRuns)
+  }));
+};
+
+export const importSessions = (snapshots: SessionSnapshot[]): void => {
+  for (const snapshot of snapshots) {
+    // Reviews that were waiting on the approver did not survive the restart
+    for (const entry of snapshot.planning) {
+      for (const step of entry.plan.steps) {
+        if (step.status === 'in_review') step.status = 'pending';
+      }
+    }
+    // Nor did runs: a unit still running never reports back, so its dependents cannot run
+    const batchRuns = Object.entries(snapshot.batchRuns || {}).map(([batchId, units]) => [
+      batchId,
+      Object.fromEntries(Object.entries(units).map(([unit, state]) => [unit, state === 'running' ? 'failed' : state]))
+    ] as [string, Record<number, BatchUnitRunState>]);
+    sessions.set(snapshot.id, {
+      id: snapshot.id,
+      createdAt: snapshot.createdAt,
+      lastActiveAt: snapshot.lastActiveAt,
+      selectedCodespace: snapshot.selectedCodespace ?? null,
+      planning: new Map(snapshot.planning.map(entry => [entry.token, entry])),
+      executions: new Map(snapshot.executions.map(entry => [entry.token, entry])),
+      batchRuns: new Map(batchRuns)
+    });
+  }
+  pruneSessions();
+};
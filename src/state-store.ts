@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encrypt, decrypt } from './encryption.js';
+import { exportSessions, importSessions, setSessionsChangeListener, SessionSnapshot } from './sessions.js';
+import { exportExecutions, importExecutions, setExecutionsChangeListener, ExecutionJob } from './executions.js';
+import { exportSealKey, importSealKey } from './execution-tokens.js';
+import 'dotenv/config'
+
+/**
+ * Optional durable store for plans, approved executions and job state, so a server
+ * restart does not throw away approvals that have not been executed yet.
+ *
+ * The whole state is one file, encrypted with the local key (see encryption.ts) and
+ * replaced atomically on every change. Expired tokens and finished jobs past retention
+ * are left out of every write and dropped again when the file is loaded.
+ *
+ * Every write replaces the file with this process's state, so one server owns the
+ * file at a time through a lock file next to it. Another server started against the
+ * same path keeps its state in memory instead of erasing the owner's approvals.
+ */
+
+export const STATE_STORE_MODES = ['memory', 'file'] as const;
+export type StateStoreMode = typeof STATE_STORE_MODES[number];
+
+const STATE_VERSION = 1;
+const WRITE_DELAY_MS = 50; // Coalesces bursts of changes into one write
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+const statePath = process.env.STATE_STORE_PATH || path.join(os.homedir(), '.keyboard-mcp', 'state.enc');
+const lockPath = `${statePath}.lock`;
+
+interface PersistedState {
+  version: number;
+  savedAt: string;
+  sealKey: string; // Grants sealed before a restart must still verify afterwards
+  sessions: SessionSnapshot[];
+  executions: ExecutionJob[];
+}
+
+export interface StateRestoreResult {
+  path: string;
+  restored: boolean;
+  sessions: number;
+  pendingExecutions: number;
+  jobs: number;
+  error?: string;
+}
+
+let writeTimer: NodeJS.Timeout | null = null;
+let lastWritten: string | null = null;
+
+export const isStateStoreMode = (value: string): value is StateStoreMode =>
+  (STATE_STORE_MODES as readonly string[]).includes(value);
+
+export const getStateStorePath = (): string => statePath;
+
+const writeState = (): void => {
+  if (writeTimer) {
+    clearTimeout(writeTimer);
+    writeTimer = null;
+  }
+
+  const sessions = exportSessions();
+  const executions = exportExecutions();
+  const contents = JSON.stringify({ sealKey: exportSealKey(), sessions, executions });
+  if (contents === lastWritten) return;
+
+  const state: PersistedState = {
+    version: STATE_VERSION,
+    savedAt: new Date().toISOString(),
+    sealKey: exportSealKey(),
+    sessions,
+    executions
+  };
+
+  try {
+    fs.mkdirSync(path.dirname(statePath), { recursive: true, mode: 0o700 });
+    // Write then rename so a crash never leaves a truncated state file behind
+    const tmpPath = `${statePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, encrypt(JSON.stringify(state)), { mode: 0o600 });
+    fs.renameSync(tmpPath, statePath);
+    lastWritten = contents;
+  } catch (error) {
+    console.error('⚠️ Failed to write state store:', error);
+  }
+};
+
+const isProcessRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0); // Signal 0 only checks that the process exists
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+// Takes the lock, or says who holds it. A lock left behind by a process that is gone is taken over
+const acquireLock = (): string | null => {
+  try {
+    fs.mkdirSync(path.dirname(statePath), { recursive: true, mode: 0o700 });
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx', mode: 0o600 });
+        return null;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+      const owner = Number(fs.readFileSync(lockPath, 'utf8'));
+      if (Number.isInteger(owner) && owner > 0 && owner !== process.pid && isProcessRunning(owner)) {
+        return `State store ${statePath} is in use by process ${owner}; this server keeps its state in memory`;
+      }
+      fs.rmSync(lockPath, { force: true });
+    }
+    return `Could not lock state store ${statePath}; this server keeps its state in memory`;
+  } catch (error) {
+    return `Failed to lock state store: ${error instanceof Error ? error.message : 'Unknown error'}; this server keeps its state in memory`;
+  }
+};
+
+const releaseLock = (): void => {
+  try {
+    if (fs.readFileSync(lockPath, 'utf8') === String(process.pid)) fs.rmSync(lockPath, { force: true });
+  } catch (error) {
+    // Already gone
+  }
+};
+
+const scheduleWrite = (): void => {
+  if (writeTimer) return;
+  writeTimer = setTimeout(writeState, WRITE_DELAY_MS);
+};
+
+// An unreadable file is kept aside for inspection instead of being overwritten
+const setAsideUnreadableState = (reason: string): string => {
+  const asidePath = `${statePath}.unreadable-${Date.now()}`;
+  try {
+    fs.renameSync(statePath, asidePath);
+  } catch (error) {
+    console.error('⚠️ Failed to move unreadable state store aside:', error);
+  }
+  return `${reason}; moved to ${asidePath}`;
+};
+
+// `unavailable` means the file exists but could not be read, so it must not be written over either
+const readState = (): { state: PersistedState | null; error?: string; unavailable?: boolean } => {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(statePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { state: null };
+    return { state: null, unavailable: true, error: `Failed to read state store: ${error instanceof Error ? error.message : 'Unknown error'}; this server keeps its state in memory` };
+  }
+
+  try {
+    const state = JSON.parse(decrypt(contents)) as PersistedState;
+    if (state.version !== STATE_VERSION) {
+      return { state: null, error: setAsideUnreadableState(`Unsupported state store version ${state.version}`) };
+    }
+    return { state };
+  } catch (error) {
+    return { state: null, error: setAsideUnreadableState(`State store could not be decrypted or parsed: ${error instanceof Error ? error.message : 'Unknown error'}`) };
+  }
+};
+
+/**
+ * Restores the previous state and writes every later change through to disk.
+ * Call once at startup, before the server accepts requests.
+ */
+export const initializeStateStore = (): StateRestoreResult => {
+  const lockError = acquireLock();
+  if (lockError) {
+    return { path: statePath, restored: false, sessions: 0, pendingExecutions: 0, jobs: 0, error: lockError };
+  }
+
+  const { state, error, unavailable } = readState();
+  const result: StateRestoreResult = { path: statePath, restored: false, sessions: 0, pendingExecutions: 0, jobs: 0, ...(error ? { error } : {}) };
+  if (unavailable) {
+    releaseLock();
+    return result;
+  }
+
+  if (state) {
+    try {
+      importSealKey(state.sealKey);
+      importSessions(state.sessions || []);
+      importExecutions(state.executions || []);
+
+      const sessions = exportSessions();
+      result.restored = true;
+      result.sessions = sessions.length;
+      result.pendingExecutions = sessions.reduce((count, session) => count + session.executions.length, 0);
+      result.jobs = exportExecutions().length;
+    } catch (importError) {
+      // The next write would replace the only copy of what could not be restored
+      result.error = setAsideUnreadableState(`Failed to restore state: ${importError instanceof Error ? importError.message : 'Unknown error'}`);
+    }
+  }
+
+  setSessionsChangeListener(scheduleWrite);
+  setExecutionsChangeListener(scheduleWrite);
+
+  // Expiry happens without any change to write through, so prune on a timer as well
+  writeState();
+  setInterval(writeState, CLEANUP_INTERVAL_MS).unref();
+  process.on('exit', () => {
+    if (writeTimer) writeState();
+    releaseLock();
+  });
+  // 'exit' does not fire when a signal ends the process, so the usual ones flush first
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      writeState();
+      process.exit(128 + os.constants.signals[signal]);
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,364 @@
+/**
+ * Deterministic static security analysis for code submitted to `evaluate`
+ *
+ * Parses JavaScript/TypeScript with the TypeScript compiler API and reports
+ * concrete findings with line numbers. Complements the LLM-based check in
+ * local-llm-service.ts, which only answers a single yes/no question.
+ */
+
+import ts from 'typescript';
+import * as path from 'path';
+import 'dotenv/config'
+import { CodeAnalysisResult, SecurityFinding } from './local-llm-service.js';
+
+type Severity = SecurityFinding['severity'];
+
+const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+// Comma separated host globs, e.g. "api.github.com,*.stripe.com"
+const trustedHosts = (process.env.TRUSTED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const CHILD_PROCESS_MODULES = ['child_process', 'node:child_process'];
+const DYNAMIC_CODE_MODULES = ['vm', 'node:vm'];
+const FS_MODULES = ['fs', 'node:fs', 'fs/promises', 'node:fs/promises', 'fs-extra'];
+const GIT_MODULES = ['simple-git', 'isomorphic-git', 'nodegit'];
+const HTTP_MODULES = ['http', 'https', 'node:http', 'node:https'];
+
+const FS_WRITE_METHODS = new Set([
+  'writeFile', 'writeFileSync', 'appendFile', 'appendFileSync', 'createWriteStream',
+  'mkdir', 'mkdirSync', 'rm', 'rmSync', 'rmdir', 'rmdirSync', 'unlink', 'unlinkSync',
+  'rename', 'renameSync', 'copyFile', 'copyFileSync', 'cp', 'cpSync', 'symlink', 'symlinkSync',
+  'truncate', 'truncateSync', 'chmod', 'chmodSync',
+  // fs-extra
+  'outputFile', 'outputFileSync', 'outputJson', 'outputJsonSync', 'writeJson', 'writeJsonSync',
+  'remove', 'removeSync', 'emptyDir', 'emptyDirSync', 'move', 'moveSync', 'copy', 'copySync',
+  'ensureDir', 'ensureDirSync', 'ensureFile', 'ensureFileSync'
+]);
+// Methods whose second argument is also a destination path
+const FS_TWO_PATH_METHODS = new Set(['rename', 'renameSync', 'copyFile', 'copyFileSync', 'cp', 'cpSync', 'symlink', 'symlinkSync', 'move', 'moveSync', 'copy', 'copySync']);
+
+const CHILD_PROCESS_METHODS = new Set(['exec', 'execSync', 'execFile', 'execFileSync', 'spawn', 'spawnSync', 'fork']);
+const AXIOS_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'request']);
+const CONSOLE_METHODS = new Set(['log', 'info', 'warn', 'error', 'debug', 'trace', 'dir', 'table']);
+
+interface ModuleBindings {
+  namespaces: Map<string, string>; // local identifier -> module name (const fs = require('fs'))
+  members: Map<string, { module: string; member: string }>; // local identifier -> imported member
+}
+
+const hostMatches = (host: string, glob: string): boolean => {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i').test(host);
+};
+
+const isTrustedHost = (host: string): boolean => trustedHosts.some(glob => hostMatches(host, glob));
+
+const getStringValue = (node: ts.Node | undefined): string | null => {
+  if (!node) return null;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  return null;
+};
+
+// Leading literal text of a string or template, enough to recover the host of a URL
+const getLeadingText = (node: ts.Node | undefined): string | null => {
+  if (!node) return null;
+  const value = getStringValue(node);
+  if (value !== null) return value;
+  if (ts.isTemplateExpression(node)) return node.head.text;
+  return null;
+};
+
+const isProcessEnv = (node: ts.Node): boolean =>
+  ts.isPropertyAccessExpression(node) &&
+  node.name.text === 'env' &&
+  ts.isIdentifier(node.expression) &&
+  node.expression.text === 'process';
+
+const containsProcessEnv = (node: ts.Node): boolean => {
+  if (isProcessEnv(node)) return true;
+  return ts.forEachChild(node, child => containsProcessEnv(child) || undefined) === true;
+};
+
+const extractHost = (url: string): string | null => {
+  const match = url.match(/^(?:https?|wss?):\/\/([a-zA-Z0-9.-]+)/);
+  return match ? match[1].toLowerCase() : null;
+};
+
+// Resolves a path argument when it is fully static, including path.join/resolve of literals
+const resolveStaticPath = (node: ts.Node | undefined): string | null => {
+  if (!node) return null;
+  const value = getStringValue(node);
+  if (value !== null) return value;
+
+  if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee.expression) && callee.expression.text === 'path' && ['join', 'resolve'].includes(callee.name.text)) {
+      const parts = node.arguments.map(arg => getStringValue(arg));
+      if (parts.every(part => part !== null)) {
+        return path.posix.join(...(parts as string[]));
+      }
+    }
+  }
+  return null;
+};
+
+const isTempPath = (filePath: string): boolean => {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || normalized.startsWith('..')) return false;
+  const firstSegment = normalized.replace(/^\.\//, '').split('/')[0];
+  return /^temp/i.test(firstSegment);
+};
+
+const getModuleName = (node: ts.Node): string | null => {
+  if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+    return getStringValue(node.arguments[0]);
+  }
+  // await import('child_process')
+  if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+    return getStringValue(node.arguments[0]);
+  }
+  if (ts.isAwaitExpression(node)) return getModuleName(node.expression);
+  return null;
+};
+
+export const analyzeCodeStatically = (code: string): CodeAnalysisResult => {
+  const findings: SecurityFinding[] = [];
+  const sourceFile = ts.createSourceFile('evaluated-script.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const bindings: ModuleBindings = { namespaces: new Map(), members: new Map() };
+  const lines = code.split('\n');
+
+  const addFinding = (rule: SecurityFinding['rule'], severity: Severity, message: string, node: ts.Node) => {
+    const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+    findings.push({ rule, severity, message, line, snippet: lines[line - 1]?.trim().slice(0, 200) });
+  };
+
+  const recordModule = (moduleName: string, node: ts.Node) => {
+    if (CHILD_PROCESS_MODULES.includes(moduleName)) {
+      addFinding('child_process', 'high', `Loads '${moduleName}', which can run arbitrary shell commands`, node);
+    } else if (DYNAMIC_CODE_MODULES.includes(moduleName)) {
+      addFinding('dynamic_code', 'high', `Loads '${moduleName}', which can evaluate arbitrary code`, node);
+    } else if (GIT_MODULES.includes(moduleName)) {
+      addFinding('git_operation', 'high', `Loads git library '${moduleName}'; git operations are not allowed`, node);
+    }
+  };
+
+  const bindRequire = (declaration: ts.VariableDeclaration, moduleName: string) => {
+    if (ts.isIdentifier(declaration.name)) {
+      bindings.namespaces.set(declaration.name.text, moduleName);
+    } else if (ts.isObjectBindingPattern(declaration.name)) {
+      for (const element of declaration.name.elements) {
+        if (!ts.isIdentifier(element.name)) continue;
+        const member = element.propertyName && ts.isIdentifier(element.propertyName) ? element.propertyName.text : element.name.text;
+        bindings.members.set(element.name.text, { module: moduleName, member });
+      }
+    }
+  };
+
+  // Resolves the module and method a call targets, e.g. fs.writeFileSync or a destructured exec
+  const resolveCallee = (expression: ts.Expression): { module: string | null; method: string | null; object: string | null } => {
+    if (ts.isIdentifier(expression)) {
+      const member = bindings.members.get(expression.text);
+      if (member) return { module: member.module, method: member.member, object: null };
+      return { module: bindings.namespaces.get(expression.text) || null, method: expression.text, object: null };
+    }
+    if (ts.isPropertyAccessExpression(expression)) {
+      const method = expression.name.text;
+      let target = expression.expression;
+      // fs.promises.writeFile
+      if (ts.isPropertyAccessExpression(target) && target.name.text === 'promises') {
+        target = target.expression;
+      }
+      if (ts.isIdentifier(target)) {
+        return { module: bindings.namespaces.get(target.text) || null, method, object: target.text };
+      }
+      const moduleName = getModuleName(target);
+      if (moduleName) return { module: moduleName, method, object: null };
+      return { module: null, method, object: null };
+    }
+    return { module: null, method: null, object: null };
+  };
+
+  const checkNetworkTarget = (urlNode: ts.Node | undefined, call: ts.CallExpression | ts.NewExpression, api: string) => {
+    const leadingText = getLeadingText(urlNode);
+    const host = leadingText ? extractHost(leadingText) : null;
+    const sendsEnv = (call.arguments || []).some(arg => containsProcessEnv(arg));
+
+    if (!host) {
+      addFinding('network_call', 'low', `${api} call to a dynamically built URL; the destination host cannot be verified`, call);
+      return;
+    }
+    if (isTrustedHost(host)) return;
+
+    if (sendsEnv) {
+      addFinding('env_exfiltration', 'critical', `Environment variables are sent to untrusted host '${host}' via ${api}`, call);
+    } else {
+      addFinding(
+        'network_call',
+        trustedHosts.length > 0 ? 'medium' : 'low',
+        trustedHosts.length > 0
+          ? `${api} call to untrusted host '${host}'`
+          : `${api} call to '${host}' (TRUSTED_HOSTS is not configured, so no host is trusted)`,
+        call
+      );
+    }
+  };
+
+  const checkFsWrite = (call: ts.CallExpression, method: string) => {
+    const pathArgs = FS_TWO_PATH_METHODS.has(method) ? [call.arguments[0], call.arguments[1]] : [call.arguments[0]];
+    for (const arg of pathArgs) {
+      const filePath = resolveStaticPath(arg);
+      if (filePath === null) {
+        addFinding('filesystem_write', 'medium', `fs.${method} uses a dynamic path; cannot verify it stays inside a temp* folder`, call);
+      } else if (!isTempPath(filePath)) {
+        addFinding('filesystem_write', 'high', `fs.${method} writes to '${filePath}', outside a temp* folder`, call);
+      }
+    }
+  };
+
+  const checkShellCommand = (call: ts.CallExpression, method: string) => {
+    addFinding('child_process', 'high', `Runs a shell command via ${method}()`, call);
+    const command = getLeadingText(call.arguments[0]);
+    if (command && /^\s*git(\s|$)/.test(command)) {
+      addFinding('git_operation', 'high', `Runs git command '${command.trim().slice(0, 80)}'; git operations are not allowed`, call);
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    // import x from 'mod' / import { a as b } from 'mod' / import * as x from 'mod'
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const moduleName = node.moduleSpecifier.text;
+      recordModule(moduleName, node);
+      const clause = node.importClause;
+      if (clause?.name) bindings.namespaces.set(clause.name.text, moduleName);
+      if (clause?.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) {
+          bindings.namespaces.set(clause.namedBindings.name.text, moduleName);
+        } else {
+          for (const element of clause.namedBindings.elements) {
+            bindings.members.set(element.name.text, { module: moduleName, member: (element.propertyName || element.name).text });
+          }
+        }
+      }
+    }
+
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      const moduleName = getModuleName(node.initializer);
+      if (moduleName) bindRequire(node, moduleName);
+    }
+
+    if (ts.isCallExpression(node)) {
+      const moduleName = getModuleName(node);
+      if (moduleName) recordModule(moduleName, node);
+
+      const { module, method, object } = resolveCallee(node.expression);
+
+      if (ts.isIdentifier(node.expression) && node.expression.text === 'eval') {
+        addFinding('dynamic_code', 'high', 'Uses eval() to run dynamically built code', node);
+      } else if (ts.isIdentifier(node.expression) && node.expression.text === 'Function') {
+        addFinding('dynamic_code', 'high', 'Uses Function() to run dynamically built code', node);
+      } else if (module && CHILD_PROCESS_MODULES.includes(module) && method && CHILD_PROCESS_METHODS.has(method)) {
+        checkShellCommand(node, method);
+      } else if (module && DYNAMIC_CODE_MODULES.includes(module)) {
+        addFinding('dynamic_code', 'high', `Evaluates code via vm.${method}()`, node);
+      } else if (module && FS_MODULES.includes(module) && method && FS_WRITE_METHODS.has(method)) {
+        checkFsWrite(node, method);
+      } else if (ts.isIdentifier(node.expression) && node.expression.text === 'fetch') {
+        checkNetworkTarget(node.arguments[0], node, 'fetch');
+      } else if ((module === 'axios' || object === 'axios') && (method === 'axios' || (method && AXIOS_METHODS.has(method)))) {
+        // axios(url) / axios.get(url) / axios({ url })
+        let urlArg: ts.Node | undefined = node.arguments[0];
+        if (urlArg && ts.isObjectLiteralExpression(urlArg)) {
+          const urlProperty = urlArg.properties.find(prop => ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) && prop.name.text === 'url');
+          urlArg = urlProperty && ts.isPropertyAssignment(urlProperty) ? urlProperty.initializer : undefined;
+        }
+        checkNetworkTarget(urlArg, node, 'axios');
+      } else if (module && HTTP_MODULES.includes(module) && (method === 'request' || method === 'get')) {
+        checkNetworkTarget(node.arguments[0], node, `${module}.${method}`);
+      } else if (object === 'console' && method && CONSOLE_METHODS.has(method) && node.arguments.some(arg => containsProcessEnv(arg))) {
+        addFinding('env_exfiltration', 'high', `Logs environment variables via console.${method}()`, node);
+      } else if (object === 'JSON' && method === 'stringify' && node.arguments[0] && isProcessEnv(node.arguments[0])) {
+        addFinding('env_exfiltration', 'high', 'Serializes the entire process.env object', node);
+      } else if (object === 'Object' && method && ['keys', 'values', 'entries'].includes(method) && node.arguments[0] && isProcessEnv(node.arguments[0])) {
+        addFinding('env_exfiltration', method === 'keys' ? 'medium' : 'high', `Enumerates environment variables via Object.${method}(process.env)`, node);
+      }
+    }
+
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression)) {
+      if (node.expression.text === 'Function') {
+        addFinding('dynamic_code', 'high', 'Uses new Function() to run dynamically built code', node);
+      } else if (node.expression.text === 'WebSocket') {
+        checkNetworkTarget(node.arguments?.[0], node, 'WebSocket');
+      }
+    }
+
+    if (ts.isReturnStatement(node) && node.expression && containsProcessEnv(node.expression)) {
+      addFinding('env_exfiltration', 'high', 'Returns environment variable values from the script', node);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  // Transpiling reports the syntax errors only; no type checking happens
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: 'evaluated-script.ts',
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.Latest }
+  });
+  const errors = diagnostics.map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (diagnostic.start === undefined) return message;
+    const line = sourceFile.getLineAndCharacterOfPosition(diagnostic.start).line + 1;
+    return `Line ${line}: ${message}`;
+  });
+
+  const maxSeverity = (items: SecurityFinding[]): Severity | 'none' =>
+    items.reduce<Severity | 'none'>(
+      (max, finding) => (max === 'none' || SEVERITY_ORDER.indexOf(finding.severity) > SEVERITY_ORDER.indexOf(max) ? finding.severity : max),
+      'none'
+    );
+
+  findings.sort((a, b) => a.line - b.line);
+  const threatLevel = maxSeverity(findings);
+  const envFindings = findings.filter(finding => finding.rule === 'env_exfiltration');
+
+  const suggestions = new Set<string>();
+  for (const finding of findings) {
+    switch (finding.rule) {
+      case 'env_exfiltration':
+        suggestions.add('Never log, return or transmit environment variable values; use them only as credentials for the intended API');
+        break;
+      case 'child_process':
+      case 'git_operation':
+        suggestions.add('Avoid shell commands and git operations; use an SDK or HTTP API instead');
+        break;
+      case 'dynamic_code':
+        suggestions.add('Remove eval/Function/vm usage and write the logic directly');
+        break;
+      case 'filesystem_write':
+        suggestions.add("Write files only inside a new folder whose name starts with 'temp'");
+        break;
+      case 'network_call':
+        suggestions.add('Call only well-known API hosts and use literal URLs so the destination can be verified');
+        break;
+    }
+  }
+
+  return {
+    success: true,
+    analysis: findings.length === 0
+      ? 'No security findings'
+      : `${findings.length} finding(s), highest severity: ${threatLevel}`,
+    errors,
+    suggestions: [...suggestions],
+    security_issues: findings.map(finding => `Line ${finding.line} [${finding.severity}] ${finding.message}`),
+    environment_exposure_risk: maxSeverity(envFindings),
+    malicious_code_detected: threatLevel === 'critical',
+    threat_level: threatLevel,
+    findings
+  };
+};
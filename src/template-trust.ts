@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import 'dotenv/config'
+
+/**
+ * Trust settings for script templates used by `evaluate_using_shortcut`.
+ *
+ * A template is trusted by exact content hash (see computeTemplateHash): once the
+ * approver has reviewed a given content, runs of that same content only need a
+ * lightweight confirm of the variables. Any edit changes the hash and brings back
+ * the full review.
+ */
+
+export type TemplateTrustMode = 'trust-approved-content' | 'always-review';
+
+export interface ApprovedTemplateContent {
+  contentHash: string;
+  version: number | null;
+  approvedAt: string;
+}
+
+export interface TemplateTrust {
+  templateId: string;
+  mode: TemplateTrustMode;
+  approvedContent: ApprovedTemplateContent[];
+}
+
+const trustPath = process.env.TEMPLATE_TRUST_PATH || path.join(os.homedir(), '.keyboard-mcp', 'template-trust.json');
+
+// Read-modify-write cycles run one at a time so concurrent approvals cannot drop each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const readTrustStore = async (): Promise<Record<string, TemplateTrust>> => {
+  try {
+    return JSON.parse(await fs.readFile(trustPath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+const writeTrustStore = async (store: Record<string, TemplateTrust>): Promise<void> => {
+  await fs.mkdir(path.dirname(trustPath), { recursive: true, mode: 0o700 });
+  const tmpPath = `${trustPath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(store, null, 2), { mode: 0o600 });
+  await fs.rename(tmpPath, trustPath);
+};
+
+const updateTrustStore = (templateId: string, update: (trust: TemplateTrust) => void): Promise<TemplateTrust> => {
+  const write = async (): Promise<TemplateTrust> => {
+    const store = await readTrustStore();
+    const trust = store[templateId] || { templateId, mode: 'trust-approved-content', approvedContent: [] };
+    update(trust);
+    store[templateId] = trust;
+    await writeTrustStore(store);
+    return trust;
+  };
+
+  const result = writeQueue.then(write, write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+export const getTemplateTrust = async (templateId: string): Promise<TemplateTrust> => {
+  const store = await readTrustStore();
+  return store[templateId] || { templateId, mode: 'trust-approved-content', approvedContent: [] };
+};
+
+export const isTemplateContentTrusted = async (templateId: string, contentHash: string): Promise<boolean> => {
+  const trust = await getTemplateTrust(templateId);
+  return trust.mode === 'trust-approved-content' && trust.approvedContent.some(entry => entry.contentHash === contentHash);
+};
+
+export const trustTemplateContent = (templateId: string, contentHash: string, version: number | null): Promise<TemplateTrust> =>
+  updateTrustStore(templateId, trust => {
+    if (!trust.approvedContent.some(entry => entry.contentHash === contentHash)) {
+      trust.approvedContent.push({ contentHash, version, approvedAt: new Date().toISOString() });
+    }
+  });
+
+export const setTemplateTrust = async (
+  templateId: string,
+  { mode, revokeApprovals = false }: { mode?: TemplateTrustMode; revokeApprovals?: boolean }
+): Promise<TemplateTrust> =>
+  updateTrustStore(templateId, trust => {
+    if (mode) trust.mode = mode;
+    if (revokeApprovals) trust.approvedContent = [];
+  });
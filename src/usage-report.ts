@@ -0,0 +1,308 @@
+import { listAllCodespacesForRepo } from './codespaces.js';
+import { queryAuditLog, AuditEntry } from './audit-log.js';
+
+/**
+ * Usage of executor codespaces, estimated from the codespace list and the
+ * executions recorded in the audit journal.
+ *
+ * GitHub does not expose per-codespace uptime, so a codespace is assumed to be running
+ * from the start of each execution until its idle timeout after the execution ended.
+ * Core-hours are that uptime times the machine's cores; storage is the machine's disk
+ * size for as long as the codespace has existed within the reporting window.
+ */
+
+export interface UsageTotals {
+  executions: number;
+  executionHours: number; // Time code was actually running
+  executionCoreHours: number | null; // executionHours times cores, when the machine is known
+  estimatedCoreHours: number | null; // Estimated uptime times cores
+  storageGbHours: number | null;
+}
+
+export interface CodespaceUsage extends UsageTotals {
+  codespace: string;
+  repository?: string;
+  state: string; // 'Deleted' when the codespace is only known from the audit journal
+  machine?: string;
+  cpus?: number;
+  storageGb?: number;
+  createdAt?: string;
+  lastUsedAt?: string;
+  estimatedUptimeHours: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string; // UTC day, YYYY-MM-DD
+}
+
+export interface TemplateUsage extends Omit<UsageTotals, 'estimatedCoreHours' | 'storageGbHours'> {
+  templateId: string | null; // null for code that did not come from a template
+}
+
+export interface CodespaceUsageReport {
+  success: boolean;
+  generatedAt: string;
+  window: { from: string; to: string };
+  totals: UsageTotals;
+  codespaces: CodespaceUsage[];
+  days: DailyUsage[];
+  templates: TemplateUsage[];
+  assumptions: string[];
+  error?: { message: string };
+}
+
+interface ExecutionSpan {
+  codespace: string;
+  templateId: string | null;
+  start: number;
+  end: number;
+}
+
+type Interval = [number, number];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const BYTES_PER_GB = 1024 ** 3;
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30; // GitHub's default when the codespace does not report one
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+const hours = (ms: number): number => ms / HOUR_MS;
+const dayOf = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const emptyTotals = (): UsageTotals => ({
+  executions: 0,
+  executionHours: 0,
+  executionCoreHours: null,
+  estimatedCoreHours: null,
+  storageGbHours: null
+});
+
+// Adds to a nullable sum, keeping it null until a known value arrives
+const addKnown = (sum: number | null, value: number | null): number | null =>
+  value === null ? sum : (sum ?? 0) + value;
+
+const clamp = ([start, end]: Interval, [from, to]: Interval): Interval | null => {
+  const clamped: Interval = [Math.max(start, from), Math.min(end, to)];
+  return clamped[1] > clamped[0] ? clamped : null;
+};
+
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const merged: Interval[] = [];
+  for (const [start, end] of [...intervals].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+};
+
+// Splits an interval at UTC midnights so usage can be attributed per day
+const splitByDay = ([start, end]: Interval): Interval[] => {
+  const parts: Interval[] = [];
+  for (let cursor = start; cursor < end;) {
+    const nextMidnight = (Math.floor(cursor / DAY_MS) + 1) * DAY_MS;
+    parts.push([cursor, Math.min(end, nextMidnight)]);
+    cursor = nextMidnight;
+  }
+  return parts;
+};
+
+const readAuditEntries = async (event: 'execute_started' | 'execute_result' | 'evaluate_submitted'): Promise<AuditEntry[]> => {
+  const audit = await queryAuditLog({ event, limit: Number.MAX_SAFE_INTEGER });
+  if (!audit.success) throw new Error(audit.error.message || 'Failed to read the audit log');
+  return audit.entries;
+};
+
+// Pairs each `execute_started` with its `execute_result`; unfinished runs count until their timeout or now
+const loadExecutionSpans = async (now: number): Promise<ExecutionSpan[]> => {
+  const [started, results, submitted] = await Promise.all([
+    readAuditEntries('execute_started'),
+    readAuditEntries('execute_result'),
+    readAuditEntries('evaluate_submitted')
+  ]);
+
+  const templateByToken = new Map<string, string>();
+  for (const entry of submitted) {
+    if (entry.data?.templateId) templateByToken.set(entry.data.executionToken, entry.data.templateId);
+  }
+
+  // Older entries have no execution id; the execution token identifies those runs
+  const runKey = (data: any): string => data?.executionId || `token:${data?.executionToken}`;
+  const finishedAt = new Map<string, number>();
+  for (const entry of results) {
+    finishedAt.set(runKey(entry.data), Date.parse(entry.timestamp));
+  }
+
+  return started
+    .filter(entry => entry.data?.codespace && entry.data?.backend !== 'local')
+    .map(entry => {
+      const start = Date.parse(entry.timestamp);
+      const limit = entry.data.timeoutSeconds ? start + entry.data.timeoutSeconds * 1000 : now;
+      return {
+        codespace: entry.data.codespace,
+        templateId: templateByToken.get(entry.data.executionToken) ?? null,
+        start,
+        end: finishedAt.get(runKey(entry.data)) ?? Math.min(limit, now)
+      };
+    });
+};
+
+export const buildCodespaceUsageReport = async ({ token, days = 30 }: { token: string; days?: number }): Promise<CodespaceUsageReport> => {
+  const now = Date.now();
+  const window: Interval = [now - days * DAY_MS, now];
+  const report: CodespaceUsageReport = {
+    success: true,
+    generatedAt: new Date(now).toISOString(),
+    window: { from: new Date(window[0]).toISOString(), to: new Date(now).toISOString() },
+    totals: emptyTotals(),
+    codespaces: [],
+    days: [],
+    templates: [],
+    assumptions: [
+      'Uptime is estimated as each execution plus the codespace idle timeout afterwards; time spent running without executions is not counted',
+      'Storage is the machine disk size for as long as the codespace existed in the window, not the disk actually used',
+      'Codespaces that no longer exist are reported from the audit journal, without machine or storage details'
+    ]
+  };
+
+  try {
+    const listing = await listAllCodespacesForRepo({ token });
+    if (!listing.success) throw new Error(listing.error?.message || 'Failed to list codespaces');
+
+    const spans = (await loadExecutionSpans(now)).filter(span => clamp([span.start, span.end], window));
+    const codespaces = new Map<string, any>(listing.codespaces.map((codespace: any) => [codespace.name, codespace]));
+    const names = new Set([...codespaces.keys(), ...spans.map(span => span.codespace)]);
+
+    const days = new Map<string, DailyUsage>();
+    const dayUsage = (date: string): DailyUsage => {
+      if (!days.has(date)) days.set(date, { date, ...emptyTotals() });
+      return days.get(date)!;
+    };
+    const templates = new Map<string | null, TemplateUsage>();
+
+    for (const name of names) {
+      const codespace = codespaces.get(name);
+      const cpus: number | undefined = codespace?.machine?.cpus;
+      const storageGb: number | undefined = codespace?.machine?.storage_in_bytes ? codespace.machine.storage_in_bytes / BYTES_PER_GB : undefined;
+      const idleMs = (codespace?.idle_timeout_minutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES) * 60 * 1000;
+      const own = spans.filter(span => span.codespace === name);
+
+      const usage: CodespaceUsage = {
+        codespace: name,
+        repository: codespace?.repository?.full_name,
+        state: codespace?.state ?? 'Deleted',
+        machine: codespace?.machine?.name,
+        cpus,
+        storageGb: storageGb === undefined ? undefined : round(storageGb),
+        createdAt: codespace?.created_at,
+        lastUsedAt: codespace?.last_used_at,
+        estimatedUptimeHours: 0,
+        ...emptyTotals()
+      };
+
+      for (const span of own) {
+        const ran = clamp([span.start, span.end], window)!;
+        const ranHours = hours(ran[1] - ran[0]);
+        const ranCoreHours = cpus === undefined ? null : ranHours * cpus;
+
+        usage.executions++;
+        usage.executionHours += ranHours;
+        usage.executionCoreHours = addKnown(usage.executionCoreHours, ranCoreHours);
+
+        const day = dayUsage(dayOf(ran[0]));
+        day.executions++;
+        for (const [from, to] of splitByDay(ran)) {
+          const part = dayUsage(dayOf(from));
+          part.executionHours += hours(to - from);
+          part.executionCoreHours = addKnown(part.executionCoreHours, cpus === undefined ? null : hours(to - from) * cpus);
+        }
+
+        if (!templates.has(span.templateId)) {
+          templates.set(span.templateId, { templateId: span.templateId, executions: 0, executionHours: 0, executionCoreHours: null });
+        }
+        const template = templates.get(span.templateId)!;
+        template.executions++;
+        template.executionHours += ranHours;
+        template.executionCoreHours = addKnown(template.executionCoreHours, ranCoreHours);
+      }
+
+      const uptime = mergeIntervals(own.map(span => [span.start, span.end + idleMs] as Interval))
+        .map(interval => clamp(interval, window))
+        .filter((interval): interval is Interval => interval !== null);
+      for (const interval of uptime) {
+        for (const [from, to] of splitByDay(interval)) {
+          usage.estimatedUptimeHours += hours(to - from);
+          if (cpus !== undefined) {
+            usage.estimatedCoreHours = addKnown(usage.estimatedCoreHours, hours(to - from) * cpus);
+            const day = dayUsage(dayOf(from));
+            day.estimatedCoreHours = addKnown(day.estimatedCoreHours, hours(to - from) * cpus);
+          }
+        }
+      }
+
+      const existed = codespace?.created_at ? clamp([Date.parse(codespace.created_at), now], window) : null;
+      if (existed && storageGb !== undefined) {
+        for (const [from, to] of splitByDay(existed)) {
+          usage.storageGbHours = addKnown(usage.storageGbHours, hours(to - from) * storageGb);
+          const day = dayUsage(dayOf(from));
+          day.storageGbHours = addKnown(day.storageGbHours, hours(to - from) * storageGb);
+        }
+      }
+
+      report.codespaces.push(usage);
+    }
+
+    const roundTotals = <T extends Partial<UsageTotals>>(totals: T): T => ({
+      ...totals,
+      ...(totals.executionHours !== undefined ? { executionHours: round(totals.executionHours) } : {}),
+      ...(totals.executionCoreHours != null ? { executionCoreHours: round(totals.executionCoreHours) } : {}),
+      ...(totals.estimatedCoreHours != null ? { estimatedCoreHours: round(totals.estimatedCoreHours) } : {}),
+      ...(totals.storageGbHours != null ? { storageGbHours: round(totals.storageGbHours) } : {})
+    });
+
+    for (const usage of report.codespaces) {
+      report.totals.executions += usage.executions;
+      report.totals.executionHours += usage.executionHours;
+      report.totals.executionCoreHours = addKnown(report.totals.executionCoreHours, usage.executionCoreHours);
+      report.totals.estimatedCoreHours = addKnown(report.totals.estimatedCoreHours, usage.estimatedCoreHours);
+      report.totals.storageGbHours = addKnown(report.totals.storageGbHours, usage.storageGbHours);
+    }
+
+    report.totals = roundTotals(report.totals);
+    report.codespaces = report.codespaces
+      .map(usage => roundTotals({ ...usage, estimatedUptimeHours: round(usage.estimatedUptimeHours) }))
+      .sort((a, b) => (b.estimatedCoreHours ?? 0) - (a.estimatedCoreHours ?? 0) || b.executions - a.executions);
+    report.days = [...days.values()].map(roundTotals).sort((a, b) => a.date.localeCompare(b.date));
+    report.templates = [...templates.values()].map(roundTotals).sort((a, b) => b.executionHours - a.executionHours);
+    return report;
+  } catch (e) {
+    return {
+      ...report,
+      success: false,
+      error: {
+        message: e instanceof Error ? e.message : 'Unknown error occurred'
+      }
+    };
+  }
+};
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One table for all three breakdowns; `group` says which one a row belongs to
+export const usageReportToCsv = (report: CodespaceUsageReport): string => {
+  const header = ['group', 'key', 'state', 'machine', 'executions', 'execution_hours', 'execution_core_hours', 'estimated_core_hours', 'storage_gb_hours'];
+  const rows: unknown[][] = [
+    ...report.codespaces.map(usage => ['codespace', usage.codespace, usage.state, usage.machine, usage.executions, usage.executionHours, usage.executionCoreHours, usage.estimatedCoreHours, usage.storageGbHours]),
+    ...report.days.map(usage => ['day', usage.date, null, null, usage.executions, usage.executionHours, usage.executionCoreHours, usage.estimatedCoreHours, usage.storageGbHours]),
+    ...report.templates.map(usage => ['template', usage.templateId ?? '(none)', null, null, usage.executions, usage.executionHours, usage.executionCoreHours, null, null]),
+    ['total', 'all', null, null, report.totals.executions, report.totals.executionHours, report.totals.executionCoreHours, report.totals.estimatedCoreHours, report.totals.storageGbHours]
+  ];
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocketServer } from 'ws';
+
+const { WebSocketManager } = await import('../build/approver.js');
+
+// An approver that holds every request until it has `batchSize` of them, then answers them in reverse
+const startApprover = async ({ batchSize, answer }) => {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise(resolve => server.once('listening', resolve));
+  server.on('connection', socket => {
+    const received = [];
+    socket.on('message', data => {
+      received.push(JSON.parse(data.toString()));
+      if (received.length === batchSize) {
+        for (const request of received.reverse()) socket.send(JSON.stringify(answer(request)));
+      }
+    });
+  });
+  return server;
+};
+
+const connect = async server => {
+  const manager = new WebSocketManager({ url: `ws://127.0.0.1:${server.address().port}`, autoReconnect: false });
+  for (let attempt = 0; attempt < 100 && !manager.isConnected(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.ok(manager.isConnected());
+  return manager;
+};
+
+test('concurrent approvals each get the reply to their own request', async () => {
+  const server = await startApprover({
+    batchSize: 2,
+    answer: request => request.title === 'first'
+      ? { inReplyTo: request.id, status: 'approved', feedback: 'first ok' }
+      : { inReplyTo: request.id, status: 'rejected', feedback: 'second no' }
+  });
+  const manager = await connect(server);
+  try {
+    const [first, second] = await Promise.all([
+      manager.sendAndWaitForApproval({ id: 'request-1', title: 'first' }, 2000),
+      manager.sendAndWaitForApproval({ id: 'request-2', title: 'second' }, 2000)
+    ]);
+    assert.equal(first.status, 'approved');
+    assert.equal(first.feedback, 'first ok');
+    assert.deepEqual(JSON.parse(second), { error: 'code execution rejected', feedback: 'second no' });
+    assert.equal(manager.getPendingRequestCount(), 0);
+  } finally {
+    manager.disconnect();
+    server.close();
+  }
+});
+
+test('token replies are matched by requestId alongside approvals', async () => {
+  const server = await startApprover({
+    batchSize: 2,
+    answer: request => request.type === 'request-token'
+      ? { type: 'auth-token', requestId: request.requestId, token: 'secret' }
+      : { id: request.id, status: 'approved' }
+  });
+  const manager = await connect(server);
+  try {
+    const [approval, token] = await Promise.all([
+      manager.sendAndWaitForApproval({ id: 'approval-1' }, 2000),
+      manager.sendAndWaitForTokenResponse({ type: 'request-token' }, 2000)
+    ]);
+    assert.equal(approval.status, 'approved');
+    assert.equal(token.token, 'secret');
+  } finally {
+    manager.disconnect();
+    server.close();
+  }
+});
+
+test('a reply to an unknown request does not settle a pending one', async () => {
+  const server = await startApprover({
+    batchSize: 1,
+    answer: () => ({ inReplyTo: 'someone-else', status: 'approved' })
+  });
+  const manager = await connect(server);
+  try {
+    await assert.rejects(manager.sendAndWaitForApproval({ id: 'mine' }, 200), /Response timeout/);
+    assert.equal(manager.getPendingRequestCount(), 0);
+  } finally {
+    manager.disconnect();
+    server.close();
+  }
+});
+
+test('the same request id cannot be awaited twice at once', async () => {
+  const server = await startApprover({ batchSize: 2, answer: request => ({ id: request.id, status: 'approved' }) });
+  const manager = await connect(server);
+  try {
+    const waiting = manager.sendAndWaitForApproval({ id: 'duplicate' }, 200).catch(error => error);
+    await assert.rejects(manager.sendAndWaitForApproval({ id: 'duplicate' }, 200), /Already waiting/);
+    assert.match((await waiting).message, /Response timeout/);
+  } finally {
+    manager.disconnect();
+    server.close();
+  }
+});
@@ -0,0 +1,91 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyboard-mcp-audit-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// The log path is read when the module loads, so every scenario gets its own module instance
+const loadAuditLog = async name => {
+  process.env.AUDIT_LOG_PATH = path.join(dir, `${name}.jsonl`);
+  return import(`../build/audit-log.js?${name}`);
+};
+
+const readEntries = logPath => fs.readFileSync(logPath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+test('entries form a hash chain that verifies', async () => {
+  const audit = await loadAuditLog('chain');
+  await audit.recordAuditEvent('plan_created', { planningToken: 'plan_a' });
+  await audit.recordAuditEvent('evaluate_submitted', { planningToken: 'plan_a', executionToken: 'exec_a' });
+  await audit.recordAuditEvent('execute_started', { executionToken: 'exec_a', codespace: 'cs-1' });
+
+  const entries = readEntries(audit.getAuditLogPath());
+  assert.deepEqual(entries.map(entry => entry.seq), [1, 2, 3]);
+  assert.equal(entries[1].prevHash, entries[0].hash);
+  assert.equal(entries[2].prevHash, entries[1].hash);
+  assert.deepEqual(await audit.verifyAuditLog(), { valid: true, entriesChecked: 3 });
+});
+
+test('concurrent appends keep the chain intact', async () => {
+  const audit = await loadAuditLog('concurrent');
+  await Promise.all(Array.from({ length: 20 }, (_, index) => audit.recordAuditEvent('execute_refused', { index })));
+  assert.deepEqual(await audit.verifyAuditLog(), { valid: true, entriesChecked: 20 });
+});
+
+test('queries filter by event, token and limit', async () => {
+  const audit = await loadAuditLog('chain');
+  const byToken = await audit.queryAuditLog({ token: 'exec_a' });
+  assert.equal(byToken.success, true);
+  assert.deepEqual(byToken.entries.map(entry => entry.event), ['evaluate_submitted', 'execute_started']);
+
+  const byEvent = await audit.queryAuditLog({ event: 'plan_created' });
+  assert.equal(byEvent.totalMatches, 1);
+
+  const limited = await audit.queryAuditLog({ limit: 1 });
+  assert.equal(limited.totalMatches, 3);
+  assert.deepEqual(limited.entries.map(entry => entry.seq), [3]);
+
+  const invalid = await audit.queryAuditLog({ since: 'not a date' });
+  assert.equal(invalid.success, false);
+});
+
+test('an edited entry breaks verification', async () => {
+  const audit = await loadAuditLog('tampered');
+  await audit.recordAuditEvent('evaluate_decision', { executionToken: 'exec_b', status: 'rejected' });
+  await audit.recordAuditEvent('evaluate_decision', { executionToken: 'exec_c', status: 'rejected' });
+
+  const logPath = audit.getAuditLogPath();
+  fs.writeFileSync(logPath, fs.readFileSync(logPath, 'utf8').replace('"exec_b","status":"rejected"', '"exec_b","status":"approved"'));
+
+  const verification = await audit.verifyAuditLog();
+  assert.equal(verification.valid, false);
+  assert.equal(verification.brokenAt, 1);
+  assert.match(verification.reason, /do not match its hash/);
+});
+
+test('a truncated tail line is skipped by queries and does not swallow the next entry', async () => {
+  const source = readEntries(path.join(dir, 'chain.jsonl'));
+  const logPath = path.join(dir, 'truncated.jsonl');
+  fs.writeFileSync(logPath, source.slice(0, 2).map(entry => JSON.stringify(entry)).join('\n') + '\n{"seq":3,"timest');
+
+  const audit = await loadAuditLog('truncated');
+  const entry = await audit.recordAuditEvent('execute_refused', { executionToken: 'exec_d' });
+  assert.equal(entry.seq, 3);
+  assert.equal(entry.prevHash, source[1].hash);
+
+  const lines = fs.readFileSync(logPath, 'utf8').trim().split('\n');
+  assert.equal(lines.length, 4);
+  assert.equal(lines[2], '{"seq":3,"timest');
+  assert.deepEqual(JSON.parse(lines[3]), entry);
+
+  const query = await audit.queryAuditLog({});
+  assert.equal(query.unreadableLines, 1);
+  assert.deepEqual(query.entries.map(found => found.seq), [1, 2, 3]);
+
+  const verification = await audit.verifyAuditLog();
+  assert.equal(verification.valid, false);
+  assert.equal(verification.brokenAt, 3);
+  assert.match(verification.reason, /not a readable entry/);
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const { validateBatchDependencies, parseBatchApproval, applyDependencyRejections, createBatchId } = await import('../build/batches.js');
+const sessions = await import('../build/sessions.js');
+const { createExecutionGrant } = await import('../build/execution-tokens.js');
+
+const unit = (depends_on) => ({ code: '1', explanation_of_code: 'noop', ...(depends_on ? { depends_on } : {}) });
+
+// Approves `units` (each { dependsOn }) as one batch and returns their tokens in unit order
+const approveBatch = (sessionId, units) => {
+  const batchId = createBatchId();
+  const tokens = [];
+  units.forEach(({ dependsOn = [] }, index) => {
+    const { token } = sessions.createExecutionToken(sessionId, 60);
+    sessions.approveExecution(sessionId, token, {
+      code: '1',
+      batch: { batchId, unit: index + 1, totalUnits: units.length, after: [...tokens], dependsOn },
+      grant: createExecutionGrant({
+        token,
+        code: '1',
+        backend: 'codespace',
+        codespaceName: 'cs-main',
+        decision: { status: 'approved', decidedBy: 'approver' },
+        ttlSeconds: 60
+      })
+    });
+    tokens.push(token);
+  });
+  return { batchId, tokens };
+};
+
+test('dependencies may only point to earlier units', () => {
+  assert.equal(validateBatchDependencies([unit(), unit([1]), unit([1, 2])]), null);
+  assert.match(validateBatchDependencies([unit(), unit([2])]), /Unit 2 depends on unit 2/);
+  assert.match(validateBatchDependencies([unit([3]), unit(), unit()]), /Unit 1 depends on unit 3/);
+});
+
+test('the approver can approve all, some or none of the units', () => {
+  assert.deepEqual([...parseBatchApproval({ status: 'approved' }, [1, 2, 3])], [1, 2, 3]);
+  assert.deepEqual([...parseBatchApproval({ status: 'approved', approvedUnits: [3, 1, 9] }, [1, 2, 3])], [1, 3]);
+  assert.deepEqual([...parseBatchApproval(JSON.stringify({ status: 'rejected', approvedUnits: [1] }), [1])], []);
+  assert.deepEqual([...parseBatchApproval('not json', [1])], []);
+});
+
+test('rejections follow chains of dependencies', () => {
+  const outcomes = new Map([
+    [1, { unit: 1, status: 'rejected', decidedBy: 'approver' }],
+    [4, { unit: 4, status: 'approved', decidedBy: 'policy' }]
+  ]);
+  applyDependencyRejections([unit(), unit([1]), unit([2]), unit()], outcomes);
+  assert.equal(outcomes.get(2).decidedBy, 'dependency');
+  assert.equal(outcomes.get(3).feedback, 'Depends on unit 2, which was not approved');
+  assert.equal(outcomes.get(4).status, 'approved');
+});
+
+test('units run in batch order once their dependencies succeed', () => {
+  const { batchId, tokens } = approveBatch('batch-order', [{}, { dependsOn: [1] }]);
+
+  const early = sessions.takeExecution('batch-order', tokens[1]);
+  assert.equal(early.code, 'BATCH_ORDER');
+  assert.match(early.message, new RegExp(`Execute token ${tokens[0]} first`));
+
+  assert.ok(sessions.takeExecution('batch-order', tokens[0]).entry);
+  assert.equal(sessions.takeExecution('batch-order', tokens[1]).code, 'BATCH_ORDER');
+
+  sessions.settleBatchUnit('batch-order', batchId, 1, true);
+  assert.equal(sessions.takeExecution('batch-order', tokens[1]).entry.batch.unit, 2);
+});
+
+test('a failed unit discards its dependents, in turn', () => {
+  const { batchId, tokens } = approveBatch('batch-failure', [{}, { dependsOn: [1] }, { dependsOn: [2] }, {}]);
+
+  assert.ok(sessions.takeExecution('batch-failure', tokens[0]).entry);
+  sessions.settleBatchUnit('batch-failure', batchId, 1, false);
+
+  const second = sessions.takeExecution('batch-failure', tokens[1]);
+  assert.equal(second.code, 'BATCH_DEPENDENCY_FAILED');
+  assert.match(second.message, /did not run successfully/);
+  assert.equal(sessions.takeExecution('batch-failure', tokens[2]).code, 'BATCH_DEPENDENCY_FAILED');
+
+  // An independent unit of the same batch still runs
+  assert.ok(sessions.takeExecution('batch-failure', tokens[3]).entry);
+  assert.equal(sessions.takeExecution('batch-failure', tokens[1]).code, 'TOKEN_INVALID');
+});
+
+test('a dependency whose token is gone can no longer be satisfied', () => {
+  const { tokens } = approveBatch('batch-discarded', [{}, { dependsOn: [1] }]);
+  sessions.discardExecution('batch-discarded', tokens[0]);
+
+  const result = sessions.takeExecution('batch-discarded', tokens[1]);
+  assert.equal(result.code, 'BATCH_DEPENDENCY_FAILED');
+  assert.match(result.message, /was never executed and can no longer be/);
+});
@@ -0,0 +1,74 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCipheriv, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Key settings are read when the module loads, so set them first
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyboard-mcp-encryption-'));
+const envKey = randomBytes(32);
+process.env.ENCRYPTION_KEY = envKey.toString('hex');
+process.env.ENCRYPTION_KEY_ID = '';
+process.env.KEYRING_PATH = path.join(dir, 'keyring.json');
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { encrypt, decrypt, rotateEncryptionKey, getActiveKeyId, getExecutorKeyId } = await import('../build/encryption.js');
+
+// Failures are logged before they are rethrown; keep the test output readable
+console.error = () => {};
+
+test('payloads are GCM envelopes that round-trip', () => {
+  const envelope = encrypt('hello world');
+  const [version, keyId, iv, authTag, ciphertext] = envelope.split(':');
+  assert.equal(version, 'v2');
+  assert.equal(keyId, 'env');
+  assert.equal(iv.length, 24);
+  assert.equal(authTag.length, 32);
+  assert.ok(ciphertext.length > 0);
+  assert.equal(decrypt(envelope), 'hello world');
+  assert.notEqual(encrypt('hello world'), envelope);
+});
+
+test('altered ciphertext, tags and key ids are refused', () => {
+  const parts = encrypt('sensitive').split(':');
+  const flip = hex => (hex[0] === '0' ? '1' : '0') + hex.slice(1);
+
+  assert.throws(() => decrypt([...parts.slice(0, 4), flip(parts[4])].join(':')), /Failed to decrypt/);
+  assert.throws(() => decrypt([...parts.slice(0, 3), flip(parts[3]), parts[4]].join(':')), /Failed to decrypt/);
+  assert.throws(() => decrypt([...parts.slice(0, 3), parts[3].slice(0, 8), parts[4]].join(':')), /Failed to decrypt/);
+  assert.throws(() => decrypt(['v3', ...parts.slice(1)].join(':')), /Failed to decrypt/);
+});
+
+test('legacy iv:ciphertext payloads still decrypt with ENCRYPTION_KEY', () => {
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-256-cbc', envKey, iv);
+  const legacy = `${iv.toString('hex')}:${cipher.update('from the old format', 'utf8', 'hex')}${cipher.final('hex')}`;
+  assert.equal(decrypt(legacy), 'from the old format');
+});
+
+test('rotation activates a new key and keeps older payloads readable', () => {
+  const before = encrypt('before rotation');
+  const rotation = rotateEncryptionKey();
+  assert.equal(rotation.previousKeyId, 'env');
+  assert.equal(getActiveKeyId(), rotation.keyId);
+
+  const afterRotation = encrypt('after rotation');
+  assert.equal(afterRotation.split(':')[1], rotation.keyId);
+  assert.equal(decrypt(before), 'before rotation');
+  assert.equal(decrypt(afterRotation), 'after rotation');
+
+  const keyring = JSON.parse(fs.readFileSync(process.env.KEYRING_PATH, 'utf8'));
+  assert.equal(keyring.activeKeyId, rotation.keyId);
+  assert.equal(fs.statSync(process.env.KEYRING_PATH).mode & 0o777, 0o600);
+});
+
+test('a payload relabelled to another key is refused', () => {
+  const parts = encrypt('bound to its key', 'env').split(':');
+  assert.throws(() => decrypt([parts[0], getActiveKeyId(), ...parts.slice(2)].join(':')), /Failed to decrypt/);
+});
+
+test('executor payloads stay on ENCRYPTION_KEY after rotation', () => {
+  assert.equal(getExecutorKeyId(), 'env');
+  assert.equal(encrypt('for the executor', getExecutorKeyId()).split(':')[1], 'env');
+});
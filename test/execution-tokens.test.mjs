@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+
+const {
+  createExecutionGrant,
+  verifyExecutionGrant,
+  verifyExecutionTarget,
+  exportSealKey,
+  importSealKey,
+  generateToken
+} = await import('../build/execution-tokens.js');
+
+const code = "console.log('hello');";
+const grantFor = (token, overrides = {}) => createExecutionGrant({
+  token,
+  code,
+  backend: 'codespace',
+  codespaceName: 'cs-main',
+  decision: { status: 'approved', decidedBy: 'approver', approvalId: 'approval-1' },
+  ttlSeconds: 60,
+  ...overrides
+});
+
+test('tokens are random and carry their prefix', () => {
+  const token = generateToken('plan_');
+  assert.match(token, /^plan_[\w-]{32}$/);
+  assert.notEqual(generateToken('plan_'), token);
+});
+
+test('a sealed grant verifies for the approved code only', () => {
+  const token = generateToken();
+  const grant = grantFor(token);
+  assert.deepEqual(verifyExecutionGrant({ token, grant, code }), { valid: true });
+  assert.equal(verifyExecutionGrant({ token, grant, code: `${code}\nprocess.exit(1);` }).code, 'CODE_HASH_MISMATCH');
+  assert.equal(verifyExecutionGrant({ token, grant, code: undefined }).code, 'CODE_HASH_MISMATCH');
+  assert.equal(verifyExecutionGrant({ token, grant: undefined, code }).code, 'TOKEN_NOT_APPROVED');
+});
+
+test('an expired grant is refused', () => {
+  const token = generateToken();
+  const result = verifyExecutionGrant({ token, grant: grantFor(token, { ttlSeconds: 0 }), code });
+  assert.equal(result.code, 'TOKEN_EXPIRED');
+});
+
+test('altering any sealed field, or moving the grant to another token, breaks the seal', () => {
+  const token = generateToken();
+  const grant = grantFor(token);
+  const altered = [
+    { ...grant, codeSha256: 'a'.repeat(64) },
+    { ...grant, codespaceName: 'cs-other' },
+    { ...grant, decision: { ...grant.decision, decidedBy: 'policy' } },
+    { ...grant, expiresAt: new Date(Date.now() + 86400000).toISOString() },
+    { ...grant, seal: grant.seal.slice(0, 10) }
+  ];
+  for (const candidate of altered) {
+    assert.equal(verifyExecutionGrant({ token, grant: candidate, code }).code, 'DECISION_MISMATCH');
+  }
+  assert.equal(verifyExecutionGrant({ token: generateToken(), grant, code }).code, 'DECISION_MISMATCH');
+});
+
+test('a grant only runs where it was evaluated', () => {
+  const grant = grantFor(generateToken());
+  assert.deepEqual(verifyExecutionTarget({ grant, backend: 'codespace', codespaceName: 'cs-main' }), { valid: true });
+  assert.equal(verifyExecutionTarget({ grant, backend: 'codespace', codespaceName: 'cs-other' }).code, 'CODESPACE_MISMATCH');
+  assert.equal(verifyExecutionTarget({ grant, backend: 'local', codespaceName: 'cs-main' }).code, 'CODESPACE_MISMATCH');
+});
+
+test('grants survive a seal key export and import, and no other key', () => {
+  const token = generateToken();
+  const grant = grantFor(token);
+  const saved = exportSealKey();
+
+  importSealKey(randomBytes(32).toString('hex'));
+  assert.equal(verifyExecutionGrant({ token, grant, code }).code, 'DECISION_MISMATCH');
+
+  importSealKey(saved);
+  assert.deepEqual(verifyExecutionGrant({ token, grant, code }), { valid: true });
+  assert.throws(() => importSealKey('abcd'), /Seal key must be 32 bytes/);
+});
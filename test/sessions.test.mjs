@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const sessions = await import('../build/sessions.js');
+const { createTaskPlan } = await import('../build/plans.js');
+const { createExecutionGrant } = await import('../build/execution-tokens.js');
+
+const code = "console.log('hello');";
+const newPlan = steps => createTaskPlan({
+  task: 'Report on open invoices',
+  steps,
+  researchCompleted: true,
+  contextResearchRequired: false,
+  codespace: { backend: 'codespace', name: 'cs-main' }
+});
+
+const approve = (sessionId, token) => sessions.approveExecution(sessionId, token, {
+  code,
+  backend: 'codespace',
+  codespaceName: 'cs-main',
+  grant: createExecutionGrant({
+    token,
+    code,
+    backend: 'codespace',
+    codespaceName: 'cs-main',
+    decision: { status: 'approved', decidedBy: 'approver' },
+    ttlSeconds: 60
+  })
+});
+
+test('sessions cannot use or see each other\'s execution tokens', () => {
+  const { token } = sessions.createExecutionToken('session-a', 60);
+  approve('session-a', token);
+
+  const taken = sessions.takeExecution('session-b', token);
+  assert.equal(taken.code, 'TOKEN_INVALID');
+  assert.match(taken.message, /belongs to another session/);
+
+  assert.deepEqual(sessions.listPendingExecutions('session-b'), []);
+  const everywhere = sessions.listPendingExecutions('session-b', { allSessions: true });
+  assert.equal(everywhere.length, 1);
+  assert.equal(everywhere[0].sessionId, 'session-a');
+  assert.equal(everywhere[0].token, undefined);
+  assert.equal(sessions.listPendingExecutions('session-a')[0].token, token);
+
+  // A failure in one session only discards that session's own entries
+  sessions.discardExecution('session-b', token);
+  assert.equal(sessions.takeExecution('session-a', token).entry.token, token);
+});
+
+test('execution tokens are single use and need approval', () => {
+  const { token } = sessions.createExecutionToken('session-c', 60);
+  assert.equal(sessions.takeExecution('session-c', token).code, 'TOKEN_NOT_APPROVED');
+
+  approve('session-c', token);
+  assert.ok(sessions.takeExecution('session-c', token).entry);
+  assert.equal(sessions.takeExecution('session-c', token).code, 'TOKEN_INVALID');
+  assert.equal(approve('session-c', token), undefined);
+});
+
+test('planning tokens and selected codespaces belong to their session', () => {
+  const { token } = sessions.createPlanningToken('session-a', 60, newPlan());
+  assert.equal(sessions.claimPlanStep('session-b', token).code, 'TOKEN_INVALID');
+  assert.equal(sessions.claimPlanStep('session-a', token).reference.step, 1);
+
+  sessions.selectCodespace('session-a', 'cs-a');
+  sessions.selectCodespace('session-b', 'cs-b');
+  assert.equal(sessions.getSelectedCodespace('session-a'), 'cs-a');
+  assert.equal(sessions.getSelectedCodespace('session-b'), 'cs-b');
+  assert.deepEqual(sessions.listSelectedCodespaces().sort(), ['cs-a', 'cs-b']);
+  assert.equal(sessions.resolveSessionId(undefined), sessions.DEFAULT_SESSION_ID);
+});
+
+test('plan steps move through review until every step is approved', () => {
+  const { token } = sessions.createPlanningToken('session-d', 60, newPlan([{ description: 'Fetch' }, { description: 'Summarise' }]));
+  assert.equal(sessions.claimPlanStep('session-d', token).code, 'PLAN_STEP_INVALID');
+  assert.equal(sessions.claimPlanStep('session-d', token, 3).code, 'PLAN_STEP_INVALID');
+
+  assert.ok(sessions.claimPlanStep('session-d', token, 1).reference);
+  assert.equal(sessions.claimPlanStep('session-d', token, 1).code, 'PLAN_STEP_UNAVAILABLE');
+  sessions.releasePlanStep('session-d', token, 1);
+  assert.ok(sessions.claimPlanStep('session-d', token, 1).reference);
+  sessions.settlePlanStep('session-d', token, 1, 'exec-1', true);
+
+  assert.ok(sessions.claimPlanStep('session-d', token, 2).reference);
+  sessions.settlePlanStep('session-d', token, 2, 'exec-2', false);
+  assert.ok(sessions.claimPlanStep('session-d', token, 2).reference);
+  sessions.settlePlanStep('session-d', token, 2, 'exec-3', true);
+
+  assert.equal(sessions.claimPlanStep('session-d', token, 2).code, 'TOKEN_ALREADY_USED');
+});
+
+test('a plan with a step in review outlives its expiry', async () => {
+  const { token } = sessions.createPlanningToken('session-e', 0.05, newPlan([{ description: 'One' }, { description: 'Two' }]));
+  sessions.claimPlanStep('session-e', token, 1);
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  sessions.createExecutionToken('session-e', 60); // prunes expired entries
+  sessions.settlePlanStep('session-e', token, 1, 'exec-1', true);
+  assert.ok(sessions.claimPlanStep('session-e', token, 2).reference);
+});
@@ -0,0 +1,113 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// The store takes a lock and installs exit handlers, so every server lifetime runs in its own process
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyboard-mcp-state-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const build = name => new URL(`../build/${name}.js`, import.meta.url).href;
+const encryptionKey = randomBytes(32).toString('hex');
+
+const runServer = (statePath, body) => JSON.parse(execFileSync(process.execPath, ['--input-type=module', '-e', `
+  const { initializeStateStore } = await import(${JSON.stringify(build('state-store'))});
+  const sessions = await import(${JSON.stringify(build('sessions'))});
+  const tokens = await import(${JSON.stringify(build('execution-tokens'))});
+  const { encrypt } = await import(${JSON.stringify(build('encryption'))});
+  const output = {};
+  ${body}
+  console.log(JSON.stringify(output));
+`], {
+  cwd: dir,
+  encoding: 'utf8',
+  stdio: ['ignore', 'pipe', 'pipe'],
+  timeout: 30000,
+  env: {
+    ...process.env,
+    STATE_STORE_PATH: statePath,
+    ENCRYPTION_KEY: encryptionKey,
+    ENCRYPTION_KEY_ID: '',
+    KEYRING_PATH: path.join(dir, 'keyring.json')
+  }
+}));
+
+test('approved executions survive a restart with their seal key', () => {
+  const statePath = path.join(dir, 'restart.enc');
+  const first = runServer(statePath, `
+    output.init = initializeStateStore();
+    const { token } = sessions.createExecutionToken('session-a', 600);
+    const code = "console.log('hi');";
+    sessions.approveExecution('session-a', token, {
+      code,
+      backend: 'codespace',
+      codespaceName: 'cs-main',
+      grant: tokens.createExecutionGrant({ token, code, backend: 'codespace', codespaceName: 'cs-main', decision: { status: 'approved', decidedBy: 'approver' }, ttlSeconds: 600 })
+    });
+    output.token = token;
+  `);
+  assert.equal(first.init.restored, false);
+  assert.equal(first.init.error, undefined);
+  assert.ok(!fs.readFileSync(statePath, 'utf8').includes(first.token));
+  assert.equal(fs.statSync(statePath).mode & 0o777, 0o600);
+  assert.equal(fs.existsSync(`${statePath}.lock`), false);
+
+  const second = runServer(statePath, `
+    output.init = initializeStateStore();
+    const taken = sessions.takeExecution('session-a', ${JSON.stringify(first.token)});
+    output.verified = tokens.verifyExecutionGrant({ token: ${JSON.stringify(first.token)}, grant: taken.entry.grant, code: taken.entry.code });
+  `);
+  assert.equal(second.init.restored, true);
+  assert.equal(second.init.sessions, 1);
+  assert.equal(second.init.pendingExecutions, 1);
+  assert.deepEqual(second.verified, { valid: true });
+
+  const third = runServer(statePath, 'output.init = initializeStateStore();');
+  assert.equal(third.init.pendingExecutions, 0);
+});
+
+test('a store locked by a running server is left alone', () => {
+  const statePath = path.join(dir, 'locked.enc');
+  fs.writeFileSync(`${statePath}.lock`, String(process.pid));
+  const result = runServer(statePath, `
+    output.init = initializeStateStore();
+    sessions.createExecutionToken('session-a', 600);
+  `);
+  assert.match(result.init.error, new RegExp(`in use by process ${process.pid}`));
+  assert.equal(fs.existsSync(statePath), false);
+  assert.equal(fs.readFileSync(`${statePath}.lock`, 'utf8'), String(process.pid));
+});
+
+test('a file that cannot be decrypted or restored is set aside, not overwritten', () => {
+  const garbled = path.join(dir, 'garbled.enc');
+  fs.writeFileSync(garbled, 'not an encrypted state');
+  const first = runServer(garbled, 'output.init = initializeStateStore();');
+  assert.match(first.init.error, /could not be decrypted or parsed: .*; moved to/);
+  const [aside] = fs.readdirSync(dir).filter(name => name.startsWith('garbled.enc.unreadable-'));
+  assert.equal(fs.readFileSync(path.join(dir, aside), 'utf8'), 'not an encrypted state');
+
+  const badSeal = path.join(dir, 'bad-seal.enc');
+  const second = runServer(badSeal, `
+    const { writeFileSync } = await import('fs');
+    writeFileSync(${JSON.stringify(badSeal)}, encrypt(JSON.stringify({ version: 1, savedAt: '', sealKey: 'abcd', sessions: [], executions: [] })));
+    output.init = initializeStateStore();
+  `);
+  assert.equal(second.init.restored, false);
+  assert.match(second.init.error, /Failed to restore state: Seal key must be 32 bytes; moved to/);
+  assert.ok(fs.readdirSync(dir).some(name => name.startsWith('bad-seal.enc.unreadable-')));
+});
+
+test('a file that cannot be read keeps the server in memory', () => {
+  const unreadable = path.join(dir, 'unreadable.enc');
+  fs.mkdirSync(unreadable);
+  const result = runServer(unreadable, `
+    output.init = initializeStateStore();
+    sessions.createExecutionToken('session-a', 600);
+  `);
+  assert.match(result.init.error, /Failed to read state store: .*this server keeps its state in memory/);
+  assert.ok(fs.statSync(unreadable).isDirectory());
+  assert.equal(fs.existsSync(`${unreadable}.lock`), false);
+});
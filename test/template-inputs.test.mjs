@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+const { compileInputSchema, validateInputSchema, validateInputs } = await import('../build/kb_shortcuts.js');
+
+const schema = {
+  repo: { type: 'string', title: 'Repo', description: 'Repository name', required: true, minLength: 1 },
+  branch: { type: 'string', title: 'Branch', description: 'Branch to use', default: 'main' },
+  environment: { type: 'string', title: 'Environment', description: 'Target', options: ['staging', 'production'] },
+  retries: { type: 'integer', title: 'Retries', description: 'Retry count', minimum: 0, maximum: 5, default: 2 },
+  owner: {
+    type: 'object',
+    title: 'Owner',
+    description: 'Owner details',
+    properties: { login: { type: 'string', format: 'email' } }
+  }
+};
+
+test('the shorthands compile to one object schema', () => {
+  const compiled = compileInputSchema(schema);
+  assert.equal(compiled.type, 'object');
+  assert.equal(compiled.additionalProperties, false);
+  assert.deepEqual(compiled.required, ['repo']);
+  assert.deepEqual(compiled.properties.environment.enum, ['staging', 'production']);
+  assert.equal(compiled.properties.repo.required, undefined);
+  assert.equal(compiled.properties.environment.options, undefined);
+});
+
+test('defaults are applied to a copy of the inputs', () => {
+  const inputs = { repo: 'api' };
+  const result = validateInputs(inputs, schema);
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.value, { repo: 'api', branch: 'main', retries: 2 });
+  assert.deepEqual(inputs, { repo: 'api' });
+});
+
+test('each failing input is reported with its path', () => {
+  const result = validateInputs(
+    { environment: 'qa', retries: 9, owner: { login: 'not-an-email' }, extra: true },
+    schema
+  );
+  assert.equal(result.valid, false);
+  const byPath = Object.fromEntries(result.issues.map(issue => [issue.path, issue]));
+  assert.equal(byPath['/repo'].message, 'is required');
+  assert.equal(byPath['/environment'].message, 'must be one of: staging, production');
+  assert.equal(byPath['/retries'].keyword, 'maximum');
+  assert.equal(byPath['/owner/login'].keyword, 'format');
+  assert.equal(byPath['/extra'].message, 'is not declared in the schema');
+  assert.ok(result.errors.includes('/repo is required'));
+});
+
+test('wrong types and empty strings are refused', () => {
+  const result = validateInputs({ repo: '', retries: 1.5 }, schema);
+  assert.deepEqual(result.issues.map(issue => `${issue.path}:${issue.keyword}`).sort(), ['/repo:minLength', '/retries:type']);
+});
+
+test('an invalid schema is reported instead of the inputs', () => {
+  assert.equal(validateInputSchema(schema).valid, true);
+
+  const broken = { count: { type: 'integer', title: 'Count', description: 'Count', minimum: 'zero' } };
+  const check = validateInputSchema(broken);
+  assert.equal(check.valid, false);
+  assert.match(check.errors[0], /^Schema \/count\/minimum/);
+
+  const result = validateInputs({ count: 1 }, broken);
+  assert.equal(result.valid, false);
+  assert.equal(result.issues[0].keyword, 'schema');
+
+  assert.deepEqual(validateInputSchema({ count: 'integer' }).errors, ["Schema field 'count' must be an object"]);
+  assert.equal(validateInputSchema({ count: { type: 'integer', title: 'Count', description: 'Count', minimumValue: 1 } }).valid, false);
+});
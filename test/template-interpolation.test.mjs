@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import vm from 'node:vm';
+
+const { interpolateScript } = await import('../build/kb_shortcuts.js');
+
+const PAYLOAD = `"; require('child_process').execSync('touch /tmp/pwned'); "`;
+const field = { type: 'string', title: 'Value', description: 'Value to interpolate' };
+
+// Runs the interpolated script in a bare context: any injected code would throw on `require`
+const run = (script, value) => {
+  const { interpolated } = interpolateScript(script, { value }, { value: field });
+  return { interpolated, result: vm.runInNewContext(interpolated) };
+};
+
+test('values in code position become literals', () => {
+  const { interpolated, result } = run('const value = {{value}}; value', PAYLOAD);
+  assert.equal(result, PAYLOAD);
+  assert.equal(interpolated, `const value = ${JSON.stringify(PAYLOAD)}; value`);
+
+  const numbers = interpolateScript('const n = {{n}};', { n: 42 }, { n: { ...field, type: 'number' } });
+  assert.equal(numbers.interpolated, 'const n = 42;');
+});
+
+test('values inside double and single quoted strings stay in the string', () => {
+  assert.equal(run('"prefix {{value}} suffix"', PAYLOAD).result, `prefix ${PAYLOAD} suffix`);
+  assert.equal(run("'prefix {{value}} suffix'", PAYLOAD).result, `prefix ${PAYLOAD} suffix`);
+  assert.equal(run("'{{value}}'", `'; require('child_process'); '`).result, `'; require('child_process'); '`);
+  assert.equal(run('"{{value}}"', 'line\nbreak \\ end').result, 'line\nbreak \\ end');
+});
+
+test('values inside template literals cannot open an expression', () => {
+  const payload = '${require("child_process")} ` + require("fs") + `';
+  assert.equal(run('`before {{value}} after`', payload).result, `before ${payload} after`);
+  assert.equal(run('`${1 + 1} {{value}}`', PAYLOAD).result, `2 ${PAYLOAD}`);
+});
+
+test('placeholders inside a template expression are code again', () => {
+  assert.equal(run('`total: ${ {{value}} }`', PAYLOAD).result, `total: ${PAYLOAD}`);
+});
+
+test('values in comments cannot end the comment', () => {
+  assert.equal(run('// note: {{value}}\n"done"', `x\nrequire('child_process')`).result, 'done');
+  assert.equal(run('/* note: {{value}} */ "done"', `*/ require('child_process') /*`).result, 'done');
+});
+
+test('raw interpolation splices the value unescaped', () => {
+  const { interpolated } = interpolateScript(
+    'const config = {{config}};',
+    { config: { retries: 3 } },
+    { config: { type: 'object', title: 'Config', description: 'Config', interpolation: 'raw' } }
+  );
+  assert.equal(interpolated, 'const config = {\n  "retries": 3\n};');
+});
+
+test('undeclared placeholders and unused fields are refused', () => {
+  assert.throws(() => interpolateScript('{{missing}}', {}, {}), /'\{\{missing\}\}' is not declared/);
+  assert.throws(() => interpolateScript('1', { value: 'x' }, { value: field }), /'value' is never used/);
+});
@@ -0,0 +1,64 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// The trust store path is read when the module loads
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyboard-mcp-trust-'));
+process.env.TEMPLATE_TRUST_PATH = path.join(dir, 'template-trust.json');
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { getTemplateTrust, isTemplateContentTrusted, trustTemplateContent, setTemplateTrust } = await import('../build/template-trust.js');
+const { computeTemplateHash } = await import('../build/kb_shortcuts.js');
+
+const template = {
+  name: 'deploy',
+  description: 'Deploy a branch',
+  schema: { branch: { type: 'string', title: 'Branch', description: 'Branch', required: true } },
+  script: 'console.log({{branch}});',
+  tags: ['deploy', 'ops']
+};
+
+test('content hashes ignore key order but not content', () => {
+  const reordered = {
+    tags: ['ops', 'deploy'],
+    script: template.script,
+    schema: { branch: { required: true, description: 'Branch', title: 'Branch', type: 'string' } },
+    description: template.description,
+    name: template.name
+  };
+  assert.equal(computeTemplateHash(reordered), computeTemplateHash(template));
+  assert.notEqual(computeTemplateHash({ ...template, script: 'console.log({{branch}}); process.exit(1);' }), computeTemplateHash(template));
+});
+
+test('only the approved content hash is trusted', async () => {
+  const hash = computeTemplateHash(template);
+  const edited = computeTemplateHash({ ...template, script: 'require("child_process"); {{branch}}' });
+  assert.equal(await isTemplateContentTrusted('tpl-1', hash), false);
+
+  await trustTemplateContent('tpl-1', hash, 1);
+  assert.equal(await isTemplateContentTrusted('tpl-1', hash), true);
+  assert.equal(await isTemplateContentTrusted('tpl-1', edited), false);
+  assert.equal(await isTemplateContentTrusted('tpl-2', hash), false);
+});
+
+test('concurrent approvals are all kept, once each', async () => {
+  await Promise.all(['a', 'b', 'c', 'a'].map(hash => trustTemplateContent('tpl-3', hash, null)));
+  const trust = await getTemplateTrust('tpl-3');
+  assert.deepEqual(trust.approvedContent.map(entry => entry.contentHash).sort(), ['a', 'b', 'c']);
+  assert.equal(fs.statSync(process.env.TEMPLATE_TRUST_PATH).mode & 0o777, 0o600);
+});
+
+test('always-review and revocation withdraw trust', async () => {
+  const hash = computeTemplateHash(template);
+  await setTemplateTrust('tpl-1', { mode: 'always-review' });
+  assert.equal(await isTemplateContentTrusted('tpl-1', hash), false);
+
+  await setTemplateTrust('tpl-1', { mode: 'trust-approved-content' });
+  assert.equal(await isTemplateContentTrusted('tpl-1', hash), true);
+
+  await setTemplateTrust('tpl-1', { revokeApprovals: true });
+  assert.equal(await isTemplateContentTrusted('tpl-1', hash), false);
+  assert.equal((await getTemplateTrust('tpl-1')).mode, 'trust-approved-content');
+});
@@ -0,0 +1,127 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyboard-mcp-versions-'));
+process.env.SCRIPT_VERSIONS_DIR = dir;
+process.env.ENCRYPTION_KEY = randomBytes(32).toString('hex');
+process.env.ENCRYPTION_KEY_ID = '';
+process.env.KEYRING_PATH = path.join(dir, 'keyring.json');
+
+const {
+  saveScriptTemplate,
+  updateScriptTemplate,
+  listScriptTemplateVersions,
+  getScriptTemplateVersion,
+  diffScriptTemplateVersions,
+  rollbackScriptTemplate,
+  diffLines
+} = await import('../build/kb_shortcuts.js');
+
+// In-memory stand-in for the local scripts API, which overwrites templates in place
+const templates = new Map();
+const server = http.createServer((request, response) => {
+  let body = '';
+  request.on('data', chunk => { body += chunk; });
+  request.on('end', () => {
+    const id = request.url.split('/')[3];
+    let reply;
+    if (request.method === 'POST') {
+      const newId = `tpl-${templates.size + 1}`;
+      templates.set(newId, { ...JSON.parse(body), id: newId });
+      reply = { id: newId };
+    } else if (request.method === 'PUT') {
+      templates.set(id, { ...templates.get(id), ...JSON.parse(body) });
+      reply = { success: true };
+    } else {
+      reply = { script: templates.get(id) };
+    }
+    response.setHeader('Content-Type', 'application/json');
+    response.end(JSON.stringify(reply));
+  });
+});
+
+before(() => new Promise((resolve, reject) => {
+  server.once('error', reject);
+  server.listen(8081, '127.0.0.1', resolve);
+}));
+after(() => {
+  server.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const schema = { target: { type: 'string', title: 'Target', description: 'Who to greet', required: true } };
+let templateId;
+
+test('saving records the first version, encrypted at rest', async () => {
+  const saved = await saveScriptTemplate(
+    { name: 'greet', description: 'Greets someone', schema, script: 'const target = {{target}};\nconsole.log(`hello ${target}`);', tags: ['demo'] },
+    'token'
+  );
+  assert.equal(saved.success, true);
+  templateId = saved.id;
+
+  const { versions } = await listScriptTemplateVersions(templateId);
+  assert.deepEqual(versions.map(version => [version.version, version.source]), [[1, 'created']]);
+
+  const stored = fs.readFileSync(path.join(dir, `${templateId}.json`), 'utf8');
+  assert.ok(!stored.includes('console.log'));
+  assert.equal(fs.statSync(path.join(dir, `${templateId}.json`)).mode & 0o777, 0o600);
+});
+
+test('updates append versions without rewriting earlier ones', async () => {
+  const before = JSON.parse(fs.readFileSync(path.join(dir, `${templateId}.json`), 'utf8'));
+  const updated = await updateScriptTemplate(templateId, 'token', {
+    script: 'const target = {{target}};\nconsole.log(`goodbye ${target}`);'
+  });
+  assert.deepEqual(updated, { success: true, version: 2 });
+  await updateScriptTemplate(templateId, 'token', { description: 'Says goodbye' });
+
+  const after = JSON.parse(fs.readFileSync(path.join(dir, `${templateId}.json`), 'utf8'));
+  assert.equal(after.length, 3);
+  assert.deepEqual(after[0], before[0]);
+  assert.equal((await getScriptTemplateVersion(templateId, 2)).version.template.script, templates.get(templateId).script);
+  assert.equal((await getScriptTemplateVersion(templateId, 9)).success, false);
+});
+
+test('an update that breaks the template is refused and not recorded', async () => {
+  const result = await updateScriptTemplate(templateId, 'token', { script: 'console.log({{other}});' });
+  assert.equal(result.success, false);
+  assert.match(result.error, /not declared in the schema/);
+  assert.equal((await listScriptTemplateVersions(templateId)).versions.length, 3);
+});
+
+test('versions diff by field and by script line', async () => {
+  const { diff } = await diffScriptTemplateVersions(templateId, 1, 3);
+  assert.equal(diff.identical, false);
+  assert.deepEqual(diff.changedFields, [{ field: 'description', from: 'Greets someone', to: 'Says goodbye' }]);
+  assert.deepEqual(diff.scriptChanges, { added: 1, removed: 1 });
+  assert.match(diff.scriptDiff, /^- console\.log\(`hello/m);
+  assert.match(diff.scriptDiff, /^\+ console\.log\(`goodbye/m);
+
+  assert.deepEqual(diffLines('a\nb\nc', 'a\nc\nd'), [
+    { type: 'unchanged', line: 'a' },
+    { type: 'removed', line: 'b' },
+    { type: 'unchanged', line: 'c' },
+    { type: 'added', line: 'd' }
+  ]);
+});
+
+test('rollback restores an old version as a new one', async () => {
+  const result = await rollbackScriptTemplate(templateId, 'token', 1);
+  assert.deepEqual(result, { success: true, version: 4 });
+  assert.equal(templates.get(templateId).description, 'Greets someone');
+  assert.match(templates.get(templateId).script, /hello/);
+
+  const restored = (await getScriptTemplateVersion(templateId, 4)).version;
+  assert.equal(restored.source, 'rollback');
+  assert.equal(restored.rolledBackFrom, 1);
+  assert.equal(restored.contentHash, (await getScriptTemplateVersion(templateId, 1)).version.contentHash);
+  assert.equal((await diffScriptTemplateVersions(templateId, 1, 4)).diff.identical, true);
+
+  assert.equal((await rollbackScriptTemplate(templateId, 'token', 7)).success, false);
+});